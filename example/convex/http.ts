@@ -17,8 +17,8 @@ registerRoutes(http, components.stripe, {
         status: subscription.status,
       });
 
-      // You can run additional logic here after the default database sync
-      // For example, send a notification, update other tables, etc.
+      // You can run additional logic here, for example send a notification
+      // or update other tables. Default database syncing runs separately.
     },
     "payment_intent.succeeded": async (ctx, event) => {
       // Example custom handler: Log successful one-time payments
@@ -42,11 +42,8 @@ registerRoutes(http, components.stripe, {
     //   eventId: event.id,
     // });
 
-    // Example: Update audit log
-    // await ctx.runMutation(internal.audit.logWebhookEvent, {
-    //   eventType: event.type,
-    //   eventData: event.data,
-    // });
+    // Every event is also kept in the component's audit log, see
+    // `listWebhookEvents` on the StripeSubscriptions client
   },
 });
 
@@ -12,6 +12,10 @@ import { v } from "convex/values";
 
 const stripeClient = new StripeSubscriptions(components.stripe, {});
 
+// The component leaves test mode data out of queries by default.
+// Include it unless this deployment runs with a live key.
+const includeTestData = !process.env.STRIPE_SECRET_KEY?.startsWith("sk_live_");
+
 // Validate required environment variables
 function getAppUrl(): string {
   const url = process.env.APP_URL;
@@ -203,7 +207,7 @@ export const updateSeats = action({
     // Verify ownership
     const subscription = await ctx.runQuery(
       components.stripe.public.getSubscription,
-      { stripeSubscriptionId: args.subscriptionId },
+      { stripeSubscriptionId: args.subscriptionId, includeTestData },
     );
 
     if (!subscription || subscription.userId !== identity.subject) {
@@ -249,6 +253,7 @@ export const getOrgSubscription = query({
   handler: async (ctx, args) => {
     return await ctx.runQuery(components.stripe.public.getSubscriptionByOrgId, {
       orgId: args.orgId,
+      includeTestData,
     });
   },
 });
@@ -276,6 +281,7 @@ export const getOrgPayments = query({
   handler: async (ctx, args) => {
     return await ctx.runQuery(components.stripe.public.listPaymentsByOrgId, {
       orgId: args.orgId,
+      includeTestData,
     });
   },
 });
@@ -305,6 +311,7 @@ export const getOrgInvoices = query({
     // Direct lookup by orgId (now that invoices have orgId index)
     return await ctx.runQuery(components.stripe.public.listInvoicesByOrgId, {
       orgId: args.orgId,
+      includeTestData,
     });
   },
 });
@@ -361,6 +368,7 @@ export const getSubscriptionInfo = query({
   handler: async (ctx, args) => {
     return await ctx.runQuery(components.stripe.public.getSubscription, {
       stripeSubscriptionId: args.subscriptionId,
+      includeTestData,
     });
   },
 });
@@ -385,7 +393,7 @@ export const cancelSubscription = action({
     // Verify ownership by checking the subscription's userId
     const subscription = await ctx.runQuery(
       components.stripe.public.getSubscription,
-      { stripeSubscriptionId: args.subscriptionId },
+      { stripeSubscriptionId: args.subscriptionId, includeTestData },
     );
 
     if (!subscription || subscription.userId !== identity.subject) {
@@ -416,7 +424,7 @@ export const reactivateSubscription = action({
     // Verify ownership
     const subscription = await ctx.runQuery(
       components.stripe.public.getSubscription,
-      { stripeSubscriptionId: args.subscriptionId },
+      { stripeSubscriptionId: args.subscriptionId, includeTestData },
     );
 
     if (!subscription || subscription.userId !== identity.subject) {
@@ -459,7 +467,7 @@ export const getCustomerPortalUrl = action({
     // Find customer ID from subscriptions or payments
     const subscriptions = await ctx.runQuery(
       components.stripe.public.listSubscriptionsByUserId,
-      { userId: identity.subject },
+      { userId: identity.subject, includeTestData },
     );
 
     if (subscriptions.length > 0) {
@@ -471,7 +479,7 @@ export const getCustomerPortalUrl = action({
 
     const payments = await ctx.runQuery(
       components.stripe.public.listPaymentsByUserId,
-      { userId: identity.subject },
+      { userId: identity.subject, includeTestData },
     );
 
     if (payments.length > 0 && payments[0].stripeCustomerId) {
@@ -536,13 +544,15 @@ export const getCustomerData = query({
   handler: async (ctx, args) => {
     const customer = await ctx.runQuery(components.stripe.public.getCustomer, {
       stripeCustomerId: args.customerId,
+      includeTestData,
     });
     const subscriptions = await ctx.runQuery(
       components.stripe.public.listSubscriptions,
-      { stripeCustomerId: args.customerId },
+      { stripeCustomerId: args.customerId, includeTestData },
     );
     const invoices = await ctx.runQuery(components.stripe.public.listInvoices, {
       stripeCustomerId: args.customerId,
+      includeTestData,
     });
 
     return {
@@ -583,7 +593,7 @@ export const getUserSubscriptions = query({
 
     return await ctx.runQuery(
       components.stripe.public.listSubscriptionsByUserId,
-      { userId: identity.subject },
+      { userId: identity.subject, includeTestData },
     );
   },
 });
@@ -612,6 +622,7 @@ export const getUserPayments = query({
 
     return await ctx.runQuery(components.stripe.public.listPaymentsByUserId, {
       userId: identity.subject,
+      includeTestData,
     });
   },
 });
@@ -635,7 +646,7 @@ export const getFailedPaymentSubscriptions = query({
 
     const subscriptions = await ctx.runQuery(
       components.stripe.public.listSubscriptionsByUserId,
-      { userId: identity.subject },
+      { userId: identity.subject, includeTestData },
     );
 
     return subscriptions
@@ -1,5 +1,12 @@
-import { describe, expect, test } from "vitest";
-import { StripeSubscriptions, registerRoutes } from "./index.js";
+import { describe, expect, expectTypeOf, test } from "vitest";
+import { httpRouter, type RoutableMethod } from "convex/server";
+import StripeSDK from "stripe";
+import {
+  StripeSubscriptions,
+  registerRoutes,
+  type RegisterRoutesConfig,
+  type StripeWebhookState,
+} from "./index.js";
 import { components } from "./setup.test.js";
 
 describe("StripeSubscriptions client", () => {
@@ -34,10 +41,518 @@ describe("StripeSubscriptions client", () => {
       process.env.STRIPE_SECRET_KEY = originalKey;
     }
   });
+
+  test("getOrCreateCustomer skips customers deleted in Stripe", async () => {
+    const client = new StripeSubscriptions(components.stripe, {
+      STRIPE_SECRET_KEY: "sk_test_123",
+    });
+
+    // The user's subscriptions and payments point at a deleted customer
+    // first, then at a live one
+    const ctx = {
+      runQuery: async (_ref: unknown, args: { stripeCustomerId?: string }) =>
+        args.stripeCustomerId
+          ? args.stripeCustomerId === "cus_deleted"
+          : [
+              { stripeCustomerId: "cus_deleted" },
+              { stripeCustomerId: "cus_live" },
+            ],
+    };
+
+    expect(
+      await client.getOrCreateCustomer(ctx as any, { userId: "user_123" }),
+    ).toEqual({ customerId: "cus_live", isNew: false });
+  });
 });
 
+const secret = "whsec_test";
+
+// Stubs of the component's functions for a first delivery: no signing
+// secrets are stored, the ledger hasn't seen the event and returns every
+// inline handler to run
+const runQueryAsNewEvent = async (
+  _ref: unknown,
+  args: Record<string, unknown>,
+) => ("stripeEventId" in args ? null : []);
+const runMutationAsNewEvent = async (
+  _ref: unknown,
+  args: Record<string, unknown>,
+) => args.inlineHandlers ?? null;
+
+/**
+ * Register the routes with `config` and send `request` to the one it
+ * matches. The route runs against the given stub `ctx`.
+ */
+async function requestRoute<
+  TState extends StripeWebhookState = StripeWebhookState,
+>(
+  config: RegisterRoutesConfig<TState>,
+  request: Request,
+  ctx: object,
+): Promise<Response> {
+  const http = httpRouter();
+  registerRoutes(http, components.stripe, config);
+  const [handler] = http.lookup(
+    new URL(request.url).pathname,
+    request.method as RoutableMethod,
+  )!;
+
+  // Convex keeps the HTTP action's function private
+  return await (handler as any)._handler(ctx, request);
+}
+
+/**
+ * Post `event` to the webhook route registered with `config`, signed with
+ * `signingSecret`.
+ */
+async function postSignedEvent<
+  TState extends StripeWebhookState = StripeWebhookState,
+>(
+  config: RegisterRoutesConfig<TState>,
+  event: Record<string, unknown>,
+  ctx: object = {
+    runQuery: runQueryAsNewEvent,
+    runMutation: runMutationAsNewEvent,
+  },
+  signingSecret = secret,
+): Promise<Response> {
+  const payload = JSON.stringify({ object: "event", ...event });
+  const signature = await StripeSDK.webhooks.generateTestHeaderStringAsync({
+    payload,
+    secret: signingSecret,
+  });
+  return await requestRoute(
+    config,
+    new Request("https://example.convex.site/stripe/webhook", {
+      method: "POST",
+      body: payload,
+      headers: { "stripe-signature": signature },
+    }),
+    ctx,
+  );
+}
+
 describe("registerRoutes", () => {
   test("registerRoutes function should be exported", () => {
     expect(typeof registerRoutes).toBe("function");
   });
+
+  test("middleware can share state and short-circuit with a response", async () => {
+    // The chain stops before anything is recorded, so only the stored
+    // secrets lookup needs a ctx
+    const response = await postSignedEvent(
+      {
+        STRIPE_WEBHOOK_SECRET: secret,
+        payloadOnly: true,
+        middleware: [
+          async ({ event, state }, next) => {
+            state.eventId = event.id;
+            return await next();
+          },
+          async ({ state }) => {
+            return new Response(`ignored ${state.eventId}`, { status: 202 });
+          },
+        ],
+      },
+      {
+        id: "evt_middleware",
+        type: "customer.created",
+        data: { object: {} },
+      },
+      { runQuery: async () => [] },
+    );
+
+    expect(response.status).toBe(202);
+    expect(await response.text()).toBe("ignored evt_middleware");
+  });
+
+  test("typed middleware state reaches hooks and inline handlers", async () => {
+    const tenants: Array<string | undefined> = [];
+    const response = await postSignedEvent<{ tenantId?: string }>(
+      {
+        STRIPE_WEBHOOK_SECRET: secret,
+        payloadOnly: true,
+        middleware: [
+          async ({ state }, next) => {
+            state.tenantId = "tenant_123";
+            return await next();
+          },
+        ],
+        beforeDefault: {
+          "customer.created": async (_ctx, _event, state) => {
+            tenants.push(state.tenantId);
+          },
+        },
+        onEvent: async (_ctx, _event, state) => {
+          expectTypeOf(state.tenantId).toEqualTypeOf<string | undefined>();
+          tenants.push(state.tenantId);
+        },
+      },
+      {
+        id: "evt_typed_state",
+        type: "customer.created",
+        data: { object: { id: "cus_123" } },
+      },
+    );
+
+    expect(response.status).toBe(200);
+    expect(tenants).toEqual(["tenant_123", "tenant_123"]);
+  });
+
+  test("events from the unexpected mode are rejected", async () => {
+    const response = await postSignedEvent(
+      { STRIPE_WEBHOOK_SECRET: secret, livemode: true },
+      {
+        id: "evt_test_mode",
+        type: "customer.created",
+        livemode: false,
+        data: { object: {} },
+      },
+      { runQuery: async () => [] },
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.text()).toBe("Expected a live mode event");
+  });
+
+  test("signing secrets stored by the component are accepted", async () => {
+    const response = await postSignedEvent(
+      {
+        STRIPE_WEBHOOK_SECRET: [],
+        middleware: [async () => new Response("verified", { status: 202 })],
+      },
+      {
+        id: "evt_stored_secret",
+        type: "customer.created",
+        data: { object: {} },
+      },
+      { runQuery: async () => ["whsec_stored"] },
+      "whsec_stored",
+    );
+
+    expect(response.status).toBe(202);
+  });
+
+  test("any of several signing secrets verifies an event", async () => {
+    const response = await postSignedEvent(
+      {
+        STRIPE_WEBHOOK_SECRET: ["whsec_old", "whsec_new", "whsec_other"],
+        middleware: [async () => new Response("verified", { status: 202 })],
+      },
+      {
+        id: "evt_rotated_secret",
+        type: "customer.created",
+        data: { object: {} },
+      },
+      { runQuery: async () => [] },
+      "whsec_new",
+    );
+
+    expect(response.status).toBe(202);
+  });
+
+  test("signing secrets in the environment are split on commas", async () => {
+    const originalSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    process.env.STRIPE_WEBHOOK_SECRET = " whsec_old , whsec_new ";
+
+    const response = await postSignedEvent(
+      {
+        middleware: [async () => new Response("verified", { status: 202 })],
+      },
+      {
+        id: "evt_env_secret",
+        type: "customer.created",
+        data: { object: {} },
+      },
+      { runQuery: async () => [] },
+      "whsec_new",
+    );
+
+    // Restore the environment variable
+    if (originalSecret === undefined) {
+      delete process.env.STRIPE_WEBHOOK_SECRET;
+    } else {
+      process.env.STRIPE_WEBHOOK_SECRET = originalSecret;
+    }
+
+    expect(response.status).toBe(202);
+  });
+
+  test("an inline handler that throws does not stop the others", async () => {
+    const ran: string[] = [];
+    const mutations: Array<Record<string, unknown>> = [];
+    const response = await postSignedEvent(
+      {
+        STRIPE_WEBHOOK_SECRET: secret,
+        payloadOnly: true,
+        onEvent: async () => {
+          ran.push("onEvent");
+          throw new Error("onEvent broke");
+        },
+        events: {
+          "customer.created": async () => {
+            ran.push("customer.created");
+          },
+        },
+      },
+      {
+        id: "evt_handler_error",
+        type: "customer.created",
+        data: { object: { id: "cus_123" } },
+      },
+      {
+        runQuery: async () => [],
+        runMutation: async (_ref: unknown, args: Record<string, unknown>) => {
+          mutations.push(args);
+          return await runMutationAsNewEvent(_ref, args);
+        },
+      },
+    );
+
+    // Failing by default makes Stripe retry, and the event is flagged so
+    // the retry runs the handlers again
+    expect(response.status).toBe(500);
+    expect(ran).toEqual(["onEvent", "customer.created"]);
+    expect(mutations).toContainEqual({
+      stripeEventId: "evt_handler_error",
+      handlers: ["onEvent"],
+      error: "onEvent: onEvent broke",
+    });
+  });
+
+  test("a redelivery only runs the inline handlers that failed", async () => {
+    const ran: string[] = [];
+    const enqueued: Array<{ inlineHandlers?: string[] }> = [];
+    const response = await postSignedEvent(
+      {
+        STRIPE_WEBHOOK_SECRET: secret,
+        payloadOnly: true,
+        onEvent: async () => {
+          ran.push("onEvent");
+        },
+        events: {
+          "customer.created": async () => {
+            ran.push("customer.created");
+          },
+        },
+      },
+      {
+        id: "evt_handler_retry",
+        type: "customer.created",
+        data: { object: { id: "cus_123" } },
+      },
+      {
+        runQuery: async () => [],
+        // The ledger remembers that only onEvent failed last time
+        runMutation: async (
+          _ref: unknown,
+          args: { inlineHandlers?: string[] },
+        ) => {
+          enqueued.push(args);
+          return ["onEvent"];
+        },
+      },
+    );
+
+    expect(response.status).toBe(200);
+    expect(enqueued[0].inlineHandlers).toEqual(["onEvent", "customer.created"]);
+    expect(ran).toEqual(["onEvent"]);
+  });
+
+  test("handler errors are only recorded when failOnHandlerError is false", async () => {
+    const mutations: Array<Record<string, unknown>> = [];
+    const response = await postSignedEvent(
+      {
+        STRIPE_WEBHOOK_SECRET: secret,
+        payloadOnly: true,
+        failOnHandlerError: false,
+        events: {
+          "customer.created": async () => {
+            throw new Error("handler broke");
+          },
+        },
+      },
+      {
+        id: "evt_handler_error_ok",
+        type: "customer.created",
+        data: { object: { id: "cus_123" } },
+      },
+      {
+        runQuery: async () => [],
+        runMutation: async (_ref: unknown, args: Record<string, unknown>) => {
+          mutations.push(args);
+          return await runMutationAsNewEvent(_ref, args);
+        },
+      },
+    );
+
+    expect(response.status).toBe(200);
+    expect(mutations).toContainEqual({
+      stripeEventId: "evt_handler_error_ok",
+      handlers: ["customer.created"],
+      error: "customer.created: handler broke",
+    });
+  });
+
+  test("onDisputeCreated receives the dispute linked to its payment", async () => {
+    const disputes: unknown[] = [];
+    const response = await postSignedEvent(
+      {
+        STRIPE_WEBHOOK_SECRET: secret,
+        onDisputeCreated: async (_ctx, dispute) => {
+          disputes.push(dispute);
+        },
+      },
+      {
+        id: "evt_dispute",
+        type: "charge.dispute.created",
+        data: {
+          object: {
+            id: "dp_123",
+            object: "dispute",
+            charge: "ch_123",
+            payment_intent: "pi_123",
+            amount: 5000,
+            currency: "usd",
+            reason: "fraudulent",
+            status: "needs_response",
+            evidence_details: { due_by: 1700000000 },
+          },
+        },
+      },
+      // Stored secrets come back empty and the payment lookup finds its owner
+      {
+        runQuery: async (
+          _ref: unknown,
+          args: { stripePaymentIntentId?: string },
+        ) =>
+          args.stripePaymentIntentId
+            ? { userId: "user_123", orgId: "org_123" }
+            : [],
+        runMutation: runMutationAsNewEvent,
+      },
+    );
+
+    expect(response.status).toBe(200);
+    expect(disputes).toEqual([
+      {
+        stripeDisputeId: "dp_123",
+        stripeChargeId: "ch_123",
+        stripePaymentIntentId: "pi_123",
+        amount: 5000,
+        currency: "usd",
+        reason: "fraudulent",
+        status: "needs_response",
+        evidenceDueBy: 1700000000,
+        userId: "user_123",
+        orgId: "org_123",
+      },
+    ]);
+  });
+
+  test("events replaced by a before-default hook keep the verified event's id", async () => {
+    const enqueued: Array<{ stripeEventId: string; payload: string }> = [];
+    const response = await postSignedEvent(
+      {
+        STRIPE_WEBHOOK_SECRET: secret,
+        payloadOnly: true,
+        beforeDefault: {
+          "customer.created": async (_ctx, event) => ({
+            ...event,
+            id: "evt_replacement",
+          }),
+        },
+      },
+      {
+        id: "evt_verified",
+        type: "customer.created",
+        data: { object: { id: "cus_123" } },
+      },
+      {
+        runQuery: runQueryAsNewEvent,
+        runMutation: async (
+          _ref: unknown,
+          args: { stripeEventId: string; payload: string },
+        ) => {
+          enqueued.push(args);
+          return await runMutationAsNewEvent(_ref, args);
+        },
+      },
+    );
+
+    // Redeliveries of evt_verified must be recognized as duplicates
+    expect(response.status).toBe(200);
+    expect(enqueued).toHaveLength(1);
+    expect(enqueued[0].stripeEventId).toBe("evt_verified");
+    expect(JSON.parse(enqueued[0].payload).id).toBe("evt_replacement");
+  });
+
+  test("before-default hooks don't run for redeliveries", async () => {
+    const hooked: string[] = [];
+    const handled: string[] = [];
+    const recordedPayload = JSON.stringify({
+      id: "evt_replacement",
+      object: "event",
+      type: "customer.created",
+      data: { object: { id: "cus_123" } },
+    });
+    const response = await postSignedEvent(
+      {
+        STRIPE_WEBHOOK_SECRET: secret,
+        payloadOnly: true,
+        beforeDefault: {
+          "customer.created": async (_ctx, event) => {
+            hooked.push(event.id);
+          },
+        },
+        onEvent: async (_ctx, event) => {
+          handled.push(event.id);
+        },
+      },
+      {
+        id: "evt_redelivered",
+        type: "customer.created",
+        data: { object: { id: "cus_123" } },
+      },
+      // The ledger recorded the hook's event, and onEvent failed last time
+      {
+        runQuery: async (_ref: unknown, args: Record<string, unknown>) =>
+          "stripeEventId" in args ? recordedPayload : [],
+        runMutation: async () => ["onEvent"],
+      },
+    );
+
+    expect(response.status).toBe(200);
+    expect(hooked).toEqual([]);
+    expect(handled).toEqual(["evt_replacement"]);
+  });
+
+  test("the status route refuses requests without its token", async () => {
+    const ctx = {
+      runQuery: async () => ({
+        lastEventByType: [],
+        windows: [],
+        oldestUnprocessedEvent: null,
+      }),
+    };
+    const url = "https://example.convex.site/stripe/webhook/status";
+
+    const unset = await requestRoute(
+      { statusRoute: {} },
+      new Request(url),
+      ctx,
+    );
+    expect(unset.status).toBe(500);
+
+    const config = { statusRoute: { token: "status_token" } };
+    const anonymous = await requestRoute(config, new Request(url), ctx);
+    expect(anonymous.status).toBe(401);
+
+    const authorized = await requestRoute(
+      config,
+      new Request(url, { headers: { authorization: "Bearer status_token" } }),
+      ctx,
+    );
+    expect(authorized.status).toBe(200);
+  });
 });
@@ -1,24 +1,46 @@
-import { httpActionGeneric } from "convex/server";
+import {
+  createFunctionHandle,
+  httpActionGeneric,
+  type PaginationOptions,
+} from "convex/server";
 import StripeSDK from "stripe";
 import type {
+  QueryCtx,
   MutationCtx,
   ActionCtx,
   HttpRouter,
   RegisterRoutesConfig,
+  StripeBeforeDefaultHook,
+  StripeBeforeDefaultHooks,
+  StripeDefaultHandlers,
+  StripeDisputeCreatedHandler,
+  StripeEventHandler,
+  StripeEventHandlerReference,
   StripeEventHandlers,
+  StripeOpenedDispute,
+  StripeWebhookMiddleware,
+  StripeWebhookState,
 } from "./types.js";
 import type { ComponentApi } from "../component/_generated/component.js";
-
-/**
- * Time window (in seconds) to check for recent subscriptions when processing
- * payment_intent.succeeded events. This helps avoid creating duplicate payment
- * records for subscription payments.
- */
-const RECENT_SUBSCRIPTION_WINDOW_SECONDS = 10 * 60; // 10 minutes
+import {
+  getStripeResponseTime,
+  getSubscriptionItems,
+  getSubscriptionLifecycle,
+} from "../component/shared.js";
 
 export type StripeComponent = ComponentApi;
 
-export type { RegisterRoutesConfig, StripeEventHandlers };
+export type {
+  RegisterRoutesConfig,
+  StripeBeforeDefaultHooks,
+  StripeDefaultHandlers,
+  StripeDisputeCreatedHandler,
+  StripeEventHandlerReference,
+  StripeEventHandlers,
+  StripeOpenedDispute,
+  StripeWebhookMiddleware,
+  StripeWebhookState,
+};
 
 /**
  * Stripe Component Client
@@ -46,19 +68,29 @@ export class StripeSubscriptions {
   /**
    * Update subscription quantity (for seat-based pricing).
    * This will update both Stripe and the local database.
+   * Subscriptions with several items need the item, by ID or by price.
    */
   async updateSubscriptionQuantity(
     ctx: ActionCtx,
     args: {
       stripeSubscriptionId: string;
       quantity: number;
+      /** Subscription item to update. */
+      stripeSubscriptionItemId?: string;
+      /** Price of the subscription item to update. */
+      priceId?: string;
+      /** Stripe Connect account to act on. Defaults to the platform account. */
+      stripeAccount?: string;
     },
   ) {
     // Delegate to the component's public action, passing the API key
     await ctx.runAction(this.component.public.updateSubscriptionQuantity, {
       stripeSubscriptionId: args.stripeSubscriptionId,
       quantity: args.quantity,
+      stripeSubscriptionItemId: args.stripeSubscriptionItemId,
+      priceId: args.priceId,
       apiKey: this.apiKey,
+      stripeAccount: args.stripeAccount,
     });
 
     return null;
@@ -73,10 +105,13 @@ export class StripeSubscriptions {
     args: {
       stripeSubscriptionId: string;
       cancelAtPeriodEnd?: boolean;
+      /** Stripe Connect account to act on. Defaults to the platform account. */
+      stripeAccount?: string;
     },
   ) {
     const stripe = new StripeSDK(this.apiKey);
     const cancelAtPeriodEnd = args.cancelAtPeriodEnd ?? true;
+    const requestOptions = getRequestOptions(args.stripeAccount);
 
     let subscription: StripeSDK.Subscription;
 
@@ -86,21 +121,35 @@ export class StripeSubscriptions {
         {
           cancel_at_period_end: true,
         },
+        requestOptions,
       );
     } else {
       subscription = await stripe.subscriptions.cancel(
         args.stripeSubscriptionId,
+        undefined,
+        requestOptions,
       );
     }
 
     // Update local database immediately (don't wait for webhook)
     await ctx.runMutation(this.component.private.handleSubscriptionUpdated, {
       stripeSubscriptionId: subscription.id,
+      stripeCustomerId:
+        typeof subscription.customer === "string"
+          ? subscription.customer
+          : subscription.customer.id,
       status: subscription.status,
       currentPeriodEnd: subscription.items.data[0]?.current_period_end || 0,
       cancelAtPeriodEnd: subscription.cancel_at_period_end ?? false,
+      ...getSubscriptionLifecycle(subscription),
       quantity: subscription.items.data[0]?.quantity ?? 1,
+      priceId: subscription.items.data[0]?.price.id,
+      items: await getSubscriptionItems(subscription, stripe, requestOptions),
       metadata: subscription.metadata || {},
+      // Stamped with Stripe's clock, so webhooks sent before the call are stale
+      eventCreated: getStripeResponseTime(subscription),
+      stripeAccountId: requestOptions?.stripeAccount,
+      livemode: subscription.livemode,
     });
 
     return null;
@@ -114,9 +163,12 @@ export class StripeSubscriptions {
     ctx: ActionCtx,
     args: {
       stripeSubscriptionId: string;
+      /** Stripe Connect account to act on. Defaults to the platform account. */
+      stripeAccount?: string;
     },
   ) {
     const stripe = new StripeSDK(this.apiKey);
+    const requestOptions = getRequestOptions(args.stripeAccount);
 
     // Reactivate by setting cancel_at_period_end to false
     const subscription = await stripe.subscriptions.update(
@@ -124,16 +176,28 @@ export class StripeSubscriptions {
       {
         cancel_at_period_end: false,
       },
+      requestOptions,
     );
 
     // Update local database immediately
     await ctx.runMutation(this.component.private.handleSubscriptionUpdated, {
       stripeSubscriptionId: subscription.id,
+      stripeCustomerId:
+        typeof subscription.customer === "string"
+          ? subscription.customer
+          : subscription.customer.id,
       status: subscription.status,
       currentPeriodEnd: subscription.items.data[0]?.current_period_end || 0,
       cancelAtPeriodEnd: subscription.cancel_at_period_end ?? false,
+      ...getSubscriptionLifecycle(subscription),
       quantity: subscription.items.data[0]?.quantity ?? 1,
+      priceId: subscription.items.data[0]?.price.id,
+      items: await getSubscriptionItems(subscription, stripe, requestOptions),
       metadata: subscription.metadata || {},
+      // Stamped with Stripe's clock, so webhooks sent before the call are stale
+      eventCreated: getStripeResponseTime(subscription),
+      stripeAccountId: requestOptions?.stripeAccount,
+      livemode: subscription.livemode,
     });
 
     return null;
@@ -160,6 +224,8 @@ export class StripeSubscriptions {
       subscriptionMetadata?: Record<string, string>;
       /** Metadata to attach to the payment intent (only for mode: "payment") */
       paymentIntentMetadata?: Record<string, string>;
+      /** Stripe Connect account to act on. Defaults to the platform account. */
+      stripeAccount?: string;
     },
   ) {
     const stripe = new StripeSDK(this.apiKey);
@@ -195,7 +261,40 @@ export class StripeSubscriptions {
       };
     }
 
-    const session = await stripe.checkout.sessions.create(sessionParams);
+    const session = await stripe.checkout.sessions.create(
+      sessionParams,
+      getRequestOptions(args.stripeAccount),
+    );
+
+    // Store the open session so it can be followed before its webhooks arrive
+    const linked = {
+      ...args.paymentIntentMetadata,
+      ...args.subscriptionMetadata,
+      ...args.metadata,
+    };
+    await ctx.runMutation(
+      this.component.private.handleCheckoutSessionUpserted,
+      {
+        stripeCheckoutSessionId: session.id,
+        stripeCustomerId:
+          typeof session.customer === "string"
+            ? session.customer
+            : session.customer?.id,
+        status: session.status ?? "open",
+        paymentStatus: session.payment_status,
+        mode: session.mode,
+        amountTotal: session.amount_total ?? undefined,
+        currency: session.currency ?? undefined,
+        url: session.url ?? undefined,
+        expiresAt: session.expires_at,
+        metadata: session.metadata || {},
+        orgId: linked.orgId,
+        userId: linked.userId,
+        eventCreated: session.created,
+        stripeAccountId: args.stripeAccount,
+        livemode: session.livemode,
+      },
+    );
 
     return {
       sessionId: session.id,
@@ -217,14 +316,19 @@ export class StripeSubscriptions {
       name?: string;
       metadata?: Record<string, string>;
       idempotencyKey?: string;
+      /** Stripe Connect account to act on. Defaults to the platform account. */
+      stripeAccount?: string;
     },
   ) {
     const stripe = new StripeSDK(this.apiKey);
 
     // Use idempotency key to prevent duplicate customers from race conditions
-    const requestOptions = args.idempotencyKey
-      ? { idempotencyKey: `create_customer_${args.idempotencyKey}` }
-      : undefined;
+    const requestOptions = {
+      ...getRequestOptions(args.stripeAccount),
+      ...(args.idempotencyKey && {
+        idempotencyKey: `create_customer_${args.idempotencyKey}`,
+      }),
+    };
 
     const customer = await stripe.customers.create(
       {
@@ -241,6 +345,8 @@ export class StripeSubscriptions {
       email: args.email,
       name: args.name,
       metadata: args.metadata,
+      stripeAccountId: args.stripeAccount,
+      livemode: customer.livemode,
     });
 
     return {
@@ -251,6 +357,9 @@ export class StripeSubscriptions {
   /**
    * Get or create a Stripe customer for a user.
    * Checks existing subscriptions/payments first to avoid duplicates.
+   * Customers deleted in Stripe are not reused.
+   * With `stripeAccount`, only customers on that connected account are reused.
+   * Only customers in the API key's mode (live or test) are reused.
    */
   async getOrCreateCustomer(
     ctx: ActionCtx,
@@ -258,34 +367,59 @@ export class StripeSubscriptions {
       userId: string;
       email?: string;
       name?: string;
+      /** Stripe Connect account to act on. Defaults to the platform account. */
+      stripeAccount?: string;
     },
   ) {
-    // Check if customer exists by userId in subscriptions
-    const existingSubs = await ctx.runQuery(
-      this.component.public.listSubscriptionsByUserId,
-      { userId: args.userId },
-    );
-
-    if (existingSubs.length > 0) {
-      return { customerId: existingSubs[0].stripeCustomerId, isNew: false };
-    }
-
-    // Check existing payments
-    const existingPayments = await ctx.runQuery(
-      this.component.public.listPaymentsByUserId,
-      { userId: args.userId },
-    );
-
-    if (existingPayments.length > 0 && existingPayments[0].stripeCustomerId) {
-      return { customerId: existingPayments[0].stripeCustomerId, isNew: false };
+    const livemode = isLiveKey(this.apiKey);
+    const isReusable = (row: {
+      stripeAccountId?: string;
+      livemode?: boolean;
+    }) =>
+      row.stripeAccountId === args.stripeAccount &&
+      (row.livemode === undefined || row.livemode === livemode);
+
+    // Check if customer exists by userId in subscriptions, then payments
+    const existingSubs = (
+      await ctx.runQuery(this.component.public.listSubscriptionsByUserId, {
+        userId: args.userId,
+        includeTestData: true,
+      })
+    ).filter(isReusable);
+    const existingPayments = (
+      await ctx.runQuery(this.component.public.listPaymentsByUserId, {
+        userId: args.userId,
+        includeTestData: true,
+      })
+    ).filter(isReusable);
+
+    // Skip customers that have since been deleted in Stripe
+    let deletedCustomerId: string | undefined;
+    for (const { stripeCustomerId } of [...existingSubs, ...existingPayments]) {
+      if (!stripeCustomerId || stripeCustomerId === deletedCustomerId) {
+        continue;
+      }
+      const deleted = await ctx.runQuery(
+        this.component.private.isCustomerDeleted,
+        { stripeCustomerId },
+      );
+      if (!deleted) {
+        return { customerId: stripeCustomerId, isNew: false };
+      }
+      deletedCustomerId = stripeCustomerId;
     }
 
-    // Create a new customer with idempotency key to prevent race conditions
+    // Create a new customer with idempotency key to prevent race conditions.
+    // The key changes when replacing a deleted customer, so Stripe does not
+    // return the deleted one again.
     const result = await this.createCustomer(ctx, {
       email: args.email,
       name: args.name,
       metadata: { userId: args.userId },
-      idempotencyKey: args.userId, // Prevents duplicate customers if called concurrently
+      idempotencyKey: deletedCustomerId
+        ? `${args.userId}_${deletedCustomerId}`
+        : args.userId, // Prevents duplicate customers if called concurrently
+      stripeAccount: args.stripeAccount,
     });
 
     return { customerId: result.customerId, isNew: true };
@@ -299,23 +433,176 @@ export class StripeSubscriptions {
     args: {
       customerId: string;
       returnUrl: string;
+      /** Stripe Connect account to act on. Defaults to the platform account. */
+      stripeAccount?: string;
     },
   ) {
     const stripe = new StripeSDK(this.apiKey);
 
-    const session = await stripe.billingPortal.sessions.create({
-      customer: args.customerId,
-      return_url: args.returnUrl,
-    });
+    const session = await stripe.billingPortal.sessions.create(
+      {
+        customer: args.customerId,
+        return_url: args.returnUrl,
+      },
+      getRequestOptions(args.stripeAccount),
+    );
 
     return {
       url: session.url,
     };
   }
 
+  // ============================================================================
+  // WEBHOOK EVENTS
+  // ============================================================================
+
+  /**
+   * Page through the webhook event audit log, newest first.
+   * Filter by event type, Stripe object ID (e.g. "sub_...") and/or status.
+   */
+  async listWebhookEvents(
+    ctx: QueryCtx,
+    args: {
+      paginationOpts: PaginationOptions;
+      type?: string;
+      objectId?: string;
+      status?: string;
+    },
+  ) {
+    return await ctx.runQuery(this.component.public.listWebhookEvents, {
+      paginationOpts: args.paginationOpts,
+      type: args.type,
+      objectId: args.objectId,
+      status: args.status,
+    });
+  }
+
+  /**
+   * List webhook events whose default processing failed after all retries,
+   * or was abandoned mid-attempt and left "processing".
+   * Each entry includes the error message, attempt count and last attempt time.
+   */
+  async listFailedWebhookEvents(
+    ctx: QueryCtx,
+    args?: {
+      limit?: number;
+    },
+  ) {
+    return await ctx.runQuery(this.component.public.listFailedWebhookEvents, {
+      limit: args?.limit,
+    });
+  }
+
+  /**
+   * List scheduled webhook handler runs that failed after all retries.
+   * Each entry includes the handler, error message and attempt count.
+   */
+  async listFailedWebhookHandlerRuns(
+    ctx: QueryCtx,
+    args?: {
+      limit?: number;
+    },
+  ) {
+    return await ctx.runQuery(
+      this.component.public.listFailedWebhookHandlerRuns,
+      {
+        limit: args?.limit,
+      },
+    );
+  }
+
+  /**
+   * Report whether webhooks are flowing: the last event per type,
+   * received/processed/failed counts over the last hour, day and week, and
+   * the oldest event still waiting to be processed.
+   */
+  async getWebhookHealth(ctx: QueryCtx) {
+    return await ctx.runQuery(this.component.public.getWebhookHealth, {});
+  }
+
+  /**
+   * Replay a recorded webhook event by running its default processing again.
+   * Returns false if the event is unknown, already queued or "skipped".
+   * Without STRIPE_SECRET_KEY the event is synced from its payload alone.
+   */
+  async replayWebhookEvent(
+    ctx: MutationCtx,
+    args: {
+      stripeEventId: string;
+    },
+  ) {
+    return await ctx.runMutation(this.component.public.replayWebhookEvent, {
+      stripeEventId: args.stripeEventId,
+      apiKey: this._apiKey || undefined,
+    });
+  }
+
+  /**
+   * Replay every failed or abandoned webhook event.
+   * Returns the number of events queued.
+   * Without STRIPE_SECRET_KEY the events are synced from their payloads alone.
+   */
+  async replayFailedWebhookEvents(ctx: MutationCtx) {
+    const batchSize = 100;
+    let replayed = 0;
+
+    // Replayed events go back to "pending", so each batch picks up
+    // where the previous one stopped
+    for (;;) {
+      const count = await ctx.runMutation(
+        this.component.public.replayFailedWebhookEvents,
+        { limit: batchSize, apiKey: this._apiKey || undefined },
+      );
+      replayed += count;
+      if (count < batchSize) {
+        return replayed;
+      }
+    }
+  }
+
   // ============================================================================
   // WEBHOOK REGISTRATION
   // ============================================================================
+
+  /**
+   * Create or update the Stripe webhook endpoint for a deployment.
+   * Enabled events are derived from the default handlers and the keys of
+   * `config.events`; pass the same config as `registerRoutes`. The signing
+   * secret Stripe returns on creation is stored by the component and accepted
+   * by the webhook route alongside STRIPE_WEBHOOK_SECRET.
+   *
+   * @param args.deploymentUrl - The deployment's HTTP actions URL, e.g.
+   *   "https://your-deployment.convex.site"
+   */
+  async createOrUpdateWebhookEndpoint<
+    TState extends StripeWebhookState = StripeWebhookState,
+  >(
+    ctx: ActionCtx,
+    args: {
+      deploymentUrl: string;
+      config?: RegisterRoutesConfig<TState>;
+    },
+  ) {
+    const webhookPath = args.config?.webhookPath ?? "/stripe/webhook";
+    const defaultHandlers = Object.entries(args.config?.defaultHandlers ?? {});
+
+    return await ctx.runAction(
+      this.component.public.createOrUpdateWebhookEndpoint,
+      {
+        url: args.deploymentUrl.replace(/\/+$/, "") + webhookPath,
+        events: [
+          ...Object.keys(args.config?.events ?? {}),
+          ...defaultHandlers
+            .filter(([, handler]) => handler !== false)
+            .map(([type]) => type),
+        ],
+        excludedEvents: defaultHandlers
+          .filter(([, handler]) => handler === false)
+          .map(([type]) => type),
+        apiKey: this.apiKey,
+      },
+    );
+  }
 }
 /**
  * Register webhook routes with the HTTP router.
@@ -336,7 +623,7 @@ export class StripeSubscriptions {
  * stripe.registerRoutes(http, {
  *   events: {
  *     "customer.subscription.updated": async (ctx, event) => {
- *       // Your custom logic after default handling
+ *       // Your custom logic (default syncing is scheduled separately)
  *       console.log("Subscription updated:", event.data.object);
  *     },
  *   },
@@ -345,22 +632,34 @@ export class StripeSubscriptions {
  * export default http;
  * ```
  */
-export function registerRoutes(
+export function registerRoutes<
+  TState extends StripeWebhookState = StripeWebhookState,
+>(
   http: HttpRouter,
   component: ComponentApi,
-  config?: RegisterRoutesConfig,
+  config?: RegisterRoutesConfig<TState>,
 ) {
   const webhookPath = config?.webhookPath ?? "/stripe/webhook";
   const eventHandlers = config?.events ?? {};
+  const defaultHandlers = config?.defaultHandlers ?? {};
+  const beforeDefaultHooks = config?.beforeDefault ?? {};
+  const middleware = config?.middleware ?? [];
 
   http.route({
     path: webhookPath,
     method: "POST",
     handler: httpActionGeneric(async (ctx, req) => {
-      const webhookSecret =
-        config?.STRIPE_WEBHOOK_SECRET || process.env.STRIPE_WEBHOOK_SECRET;
-
-      if (!webhookSecret) {
+      const webhookSecrets = [
+        ...new Set([
+          ...getWebhookSecrets(config),
+          ...(await ctx.runQuery(
+            component.private.getWebhookSigningSecrets,
+            {},
+          )),
+        ]),
+      ];
+
+      if (webhookSecrets.length === 0) {
         console.error("❌ STRIPE_WEBHOOK_SECRET is not set");
         return new Response("Webhook secret not configured", { status: 500 });
       }
@@ -373,272 +672,343 @@ export function registerRoutes(
 
       const body = await req.text();
 
-      const apiKey = config?.STRIPE_SECRET_KEY || process.env.STRIPE_SECRET_KEY;
+      // Only default syncing needs the secret key. Without it, events are
+      // synced from their payloads alone.
+      const apiKey = config?.payloadOnly
+        ? undefined
+        : config?.STRIPE_SECRET_KEY || process.env.STRIPE_SECRET_KEY;
 
-      if (!apiKey) {
-        console.error("❌ STRIPE_SECRET_KEY is not set");
-        return new Response("Stripe secret key not configured", {
-          status: 500,
-        });
+      if (!apiKey && !config?.payloadOnly) {
+        console.warn(
+          "⚠️ STRIPE_SECRET_KEY is not set, syncing from event payloads only",
+        );
       }
 
-      const stripe = new StripeSDK(apiKey);
+      // Verify webhook signature against each configured secret
+      let event: StripeSDK.Event | undefined;
+      let verificationError: unknown;
+      for (const [index, secret] of webhookSecrets.entries()) {
+        try {
+          event = await StripeSDK.webhooks.constructEventAsync(
+            body,
+            signature,
+            secret,
+          );
+          console.log(
+            `🔑 Webhook signature verified with secret #${index + 1} of ${webhookSecrets.length}`,
+          );
+          break;
+        } catch (err) {
+          verificationError = err;
+        }
+      }
 
-      // Verify webhook signature
-      let event: StripeSDK.Event;
-      try {
-        event = await stripe.webhooks.constructEventAsync(
-          body,
-          signature,
-          webhookSecret,
+      if (!event) {
+        console.error(
+          "❌ Webhook signature verification failed:",
+          verificationError,
         );
-      } catch (err) {
-        console.error("❌ Webhook signature verification failed:", err);
         return new Response(
-          `Webhook signature verification failed: ${err instanceof Error ? err.message : String(err)}`,
+          `Webhook signature verification failed: ${verificationError instanceof Error ? verificationError.message : String(verificationError)}`,
           { status: 400 },
         );
       }
 
-      // Process the event with default handlers
-      try {
-        await processEvent(ctx, component, event, stripe);
+      // Everything after signature verification, run at the end of the
+      // middleware chain
+      const processEvent = async (
+        verifiedEvent: StripeSDK.Event,
+        state: TState,
+      ): Promise<Response> => {
+        // Before-default hooks may swap in the event to sync. The ledger
+        // stays keyed on the verified event, so Stripe's redeliveries of it
+        // are still recognized as duplicates. Hooks only run for events the
+        // ledger hasn't seen; redeliveries reuse the recorded event instead.
+        let event = verifiedEvent;
+        let payload = body;
+        const beforeDefaultHook = beforeDefaultHooks[event.type] as
+          | StripeBeforeDefaultHook<StripeSDK.Event.Type, TState>
+          | undefined;
+        const recordedPayload = beforeDefaultHook
+          ? await ctx.runQuery(component.private.getWebhookEventPayload, {
+              stripeEventId: verifiedEvent.id,
+            })
+          : null;
+        if (recordedPayload !== null) {
+          event = JSON.parse(recordedPayload) as StripeSDK.Event;
+          payload = recordedPayload;
+        } else if (beforeDefaultHook) {
+          try {
+            const replacement = await beforeDefaultHook(ctx, event, state);
+            if (replacement) {
+              event = replacement;
+              payload = JSON.stringify(replacement);
+            }
+          } catch (error) {
+            console.error(
+              `❌ Error in ${event.type} before-default hook:`,
+              error,
+            );
+            return new Response("Error processing webhook", { status: 500 });
+          }
+        }
 
-        // Call generic event handler if provided
+        // Split handlers into inline functions, run in this request, and
+        // action references, scheduled by the component
+        const customHandlers: Array<{
+          handler: string;
+          fn:
+            | StripeEventHandler<StripeSDK.Event.Type, TState>
+            | StripeEventHandlerReference;
+        }> = [];
+
+        // An overridden default handler runs in place of default syncing
+        const defaultHandler = defaultHandlers[event.type] as
+          | false
+          | StripeEventHandler<StripeSDK.Event.Type, TState>
+          | StripeEventHandlerReference
+          | undefined;
+        if (defaultHandler) {
+          customHandlers.push({ handler: "default", fn: defaultHandler });
+        }
         if (config?.onEvent) {
-          await config.onEvent(ctx, event);
+          customHandlers.push({ handler: "onEvent", fn: config.onEvent });
+        }
+        const eventHandler = eventHandlers[event.type] as
+          | StripeEventHandler<StripeSDK.Event.Type, TState>
+          | StripeEventHandlerReference
+          | undefined;
+        if (eventHandler) {
+          customHandlers.push({ handler: event.type, fn: eventHandler });
+        }
+        const onDisputeCreated = config?.onDisputeCreated;
+        if (event.type === "charge.dispute.created" && onDisputeCreated) {
+          customHandlers.push({
+            handler: "onDisputeCreated",
+            fn: async (ctx, event) => {
+              const disputeEvent = event as StripeSDK.ChargeDisputeCreatedEvent;
+              await onDisputeCreated(
+                ctx,
+                await getOpenedDispute(ctx, component, disputeEvent),
+                disputeEvent,
+              );
+            },
+          });
         }
 
-        // Call custom event handler if provided
-        const eventType = event.type;
-        const customHandler:
-          | ((ctx: any, event: any) => Promise<void>)
-          | undefined = eventHandlers[eventType] as any;
-        if (customHandler) {
-          await customHandler(ctx, event);
+        const inlineHandlers: Array<{
+          handler: string;
+          fn: StripeEventHandler<StripeSDK.Event.Type, TState>;
+        }> = [];
+        const scheduledHandlers: Array<{ handler: string; handle: string }> =
+          [];
+        for (const { handler, fn } of customHandlers) {
+          if (typeof fn === "function") {
+            inlineHandlers.push({ handler, fn });
+          } else {
+            scheduledHandlers.push({
+              handler,
+              handle: await createFunctionHandle(fn),
+            });
+          }
         }
-      } catch (error) {
-        console.error("❌ Error processing webhook:", error);
-        return new Response("Error processing webhook", { status: 500 });
-      }
 
-      return new Response(JSON.stringify({ received: true }), {
-        status: 200,
-        headers: { "Content-Type": "application/json" },
-      });
-    }),
-  });
-}
+        // Persist the raw event and schedule default syncing and scheduled
+        // handlers in the component, so they run outside this request.
+        // Duplicate deliveries are acknowledged without running anything again,
+        // and redeliveries only run the inline handlers that failed.
+        const handlersToRun = await ctx.runMutation(
+          component.private.enqueueWebhookEvent,
+          {
+            stripeEventId: verifiedEvent.id,
+            type: event.type,
+            payload,
+            apiKey,
+            refetch: config?.refetch,
+            skipDefault: defaultHandler !== undefined,
+            handlers: scheduledHandlers,
+            inlineHandlers: inlineHandlers.map(({ handler }) => handler),
+          },
+        );
 
-/**
- * Internal method to process Stripe webhook events with default handling.
- * This handles the database syncing for all supported event types.
- */
-async function processEvent(
-  ctx: MutationCtx | ActionCtx,
-  component: ComponentApi,
-  event: StripeSDK.Event,
-  stripe: StripeSDK,
-): Promise<void> {
-  switch (event.type) {
-    case "customer.created":
-    case "customer.updated": {
-      const customer = event.data.object as StripeSDK.Customer;
-      const handler =
-        event.type === "customer.created"
-          ? component.private.handleCustomerCreated
-          : component.private.handleCustomerUpdated;
-
-      await ctx.runMutation(handler, {
-        stripeCustomerId: customer.id,
-        email: customer.email || undefined,
-        name: customer.name || undefined,
-        metadata: customer.metadata,
-      });
-      break;
-    }
+        if (!handlersToRun) {
+          console.log(
+            `⏭️ Skipping duplicate event ${verifiedEvent.id} (${event.type})`,
+          );
+          return new Response(
+            JSON.stringify({ received: true, duplicate: true }),
+            {
+              status: 200,
+              headers: { "Content-Type": "application/json" },
+            },
+          );
+        }
 
-    case "customer.subscription.created": {
-      const subscription = event.data.object as StripeSDK.Subscription;
-      await ctx.runMutation(component.private.handleSubscriptionCreated, {
-        stripeSubscriptionId: subscription.id,
-        stripeCustomerId: subscription.customer as string,
-        status: subscription.status,
-        currentPeriodEnd: subscription.items.data[0]?.current_period_end || 0,
-        cancelAtPeriodEnd: subscription.cancel_at_period_end ?? false,
-        quantity: subscription.items.data[0]?.quantity ?? 1,
-        priceId: subscription.items.data[0]?.price.id || "",
-        metadata: subscription.metadata || {},
-      });
-      break;
-    }
+        // Run each inline handler even if an earlier one throws
+        const failedHandlers: string[] = [];
+        const errors: string[] = [];
+        for (const { handler, fn } of inlineHandlers) {
+          if (!handlersToRun.includes(handler)) {
+            continue;
+          }
+          try {
+            await fn(ctx, event, state);
+          } catch (error) {
+            console.error(`❌ Error in ${handler} webhook handler:`, error);
+            failedHandlers.push(handler);
+            errors.push(
+              `${handler}: ${error instanceof Error ? error.message : String(error)}`,
+            );
+          }
+        }
 
-    case "customer.subscription.updated": {
-      const subscription = event.data.object as any;
-      await ctx.runMutation(component.private.handleSubscriptionUpdated, {
-        stripeSubscriptionId: subscription.id,
-        status: subscription.status,
-        currentPeriodEnd: subscription.items.data[0]?.current_period_end || 0,
-        cancelAtPeriodEnd: subscription.cancel_at_period_end ?? false,
-        quantity: subscription.items.data[0]?.quantity ?? 1,
-        metadata: subscription.metadata || {},
-      });
-      break;
-    }
+        if (failedHandlers.length > 0) {
+          // Record the failures so Stripe's retry runs those handlers again
+          await ctx.runMutation(component.private.markWebhookHandlersFailed, {
+            stripeEventId: verifiedEvent.id,
+            handlers: failedHandlers,
+            error: errors.join("; "),
+          });
+          if (config?.failOnHandlerError ?? true) {
+            return new Response("Error processing webhook", { status: 500 });
+          }
+        }
 
-    case "customer.subscription.deleted": {
-      const subscription = event.data.object as StripeSDK.Subscription;
-      await ctx.runMutation(component.private.handleSubscriptionDeleted, {
-        stripeSubscriptionId: subscription.id,
-      });
-      break;
-    }
+        return new Response(JSON.stringify({ received: true }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      };
 
-    case "checkout.session.completed": {
-      const session = event.data.object as StripeSDK.Checkout.Session;
-      await ctx.runMutation(component.private.handleCheckoutSessionCompleted, {
-        stripeCheckoutSessionId: session.id,
-        stripeCustomerId: session.customer
-          ? (session.customer as string)
-          : undefined,
-        mode: session.mode || "payment",
-        metadata: session.metadata || undefined,
-      });
-
-      // For payment mode, link the payment to the customer if we have both
+      // Reject events from the other mode, e.g. test events sent to a
+      // production deployment by a misconfigured endpoint
       if (
-        session.mode === "payment" &&
-        session.customer &&
-        session.payment_intent
+        config?.livemode !== undefined &&
+        event.livemode !== config.livemode
       ) {
-        await ctx.runMutation(component.private.updatePaymentCustomer, {
-          stripePaymentIntentId: session.payment_intent as string,
-          stripeCustomerId: session.customer as string,
+        const expected = config.livemode ? "live" : "test";
+        console.error(
+          `❌ Rejecting ${event.id}: expected a ${expected} mode event`,
+        );
+        return new Response(`Expected a ${expected} mode event`, {
+          status: 400,
         });
       }
 
-      // For subscription mode, fetch and store the latest invoice
-      if (session.mode === "subscription" && session.subscription) {
-        try {
-          const subscription = await stripe.subscriptions.retrieve(
-            session.subscription as string,
-          );
-          if (subscription.latest_invoice) {
-            const invoice = await stripe.invoices.retrieve(
-              subscription.latest_invoice as string,
-            );
-            await ctx.runMutation(component.private.handleInvoiceCreated, {
-              stripeInvoiceId: invoice.id,
-              stripeCustomerId: invoice.customer as string,
-              stripeSubscriptionId: subscription.id,
-              status: invoice.status || "paid",
-              amountDue: invoice.amount_due,
-              amountPaid: invoice.amount_paid,
-              created: invoice.created,
-            });
-          }
-        } catch (err) {
-          console.error("Error fetching invoice for subscription:", err);
+      // Run the middleware chain around processing. A middleware can
+      // short-circuit by returning its own Response instead of calling next.
+      // The state starts out empty and middleware fills it in
+      const state = {} as TState;
+      const verifiedEvent = event;
+      const dispatch = async (index: number): Promise<Response> => {
+        const current = middleware[index];
+        if (!current) {
+          return await processEvent(verifiedEvent, state);
         }
-      }
-      break;
-    }
-
-    case "invoice.created":
-    case "invoice.finalized": {
-      const invoice = event.data.object as StripeSDK.Invoice;
-      await ctx.runMutation(component.private.handleInvoiceCreated, {
-        stripeInvoiceId: invoice.id,
-        stripeCustomerId: invoice.customer as string,
-        stripeSubscriptionId: (invoice as any).subscription as
-          | string
-          | undefined,
-        status: invoice.status || "open",
-        amountDue: invoice.amount_due,
-        amountPaid: invoice.amount_paid,
-        created: invoice.created,
-      });
-      break;
-    }
-
-    case "invoice.paid":
-    case "invoice.payment_succeeded": {
-      const invoice = event.data.object as any;
-      await ctx.runMutation(component.private.handleInvoicePaid, {
-        stripeInvoiceId: invoice.id,
-        amountPaid: invoice.amount_paid,
-      });
-      break;
-    }
-
-    case "invoice.payment_failed": {
-      const invoice = event.data.object as StripeSDK.Invoice;
-      await ctx.runMutation(component.private.handleInvoicePaymentFailed, {
-        stripeInvoiceId: invoice.id,
-      });
-      break;
-    }
+        return await current(
+          { ctx, request: req, event: verifiedEvent, state },
+          () => dispatch(index + 1),
+        );
+      };
 
-    case "payment_intent.succeeded": {
-      const paymentIntent = event.data.object as any;
+      return await dispatch(0);
+    }),
+  });
 
-      // Check if this is a subscription payment
-      if (paymentIntent.invoice) {
-        try {
-          const invoice = await stripe.invoices.retrieve(
-            paymentIntent.invoice as string,
-          );
-          if ((invoice as any).subscription) {
-            console.log(
-              "⏭️ Skipping payment_intent.succeeded - subscription payment",
-            );
-            break;
-          }
-        } catch (err) {
-          console.error("Error checking invoice:", err);
+  if (config?.statusRoute) {
+    const statusPath = config.statusRoute.path ?? `${webhookPath}/status`;
+    const statusToken = config.statusRoute.token;
+
+    http.route({
+      path: statusPath,
+      method: "GET",
+      handler: httpActionGeneric(async (ctx, req) => {
+        // The report lists event IDs and types, so it is never public
+        if (!statusToken) {
+          console.error("❌ statusRoute token is not set");
+          return new Response("Status token not configured", { status: 500 });
+        }
+        if (req.headers.get("authorization") !== `Bearer ${statusToken}`) {
+          return new Response("Unauthorized", { status: 401 });
         }
-      }
 
-      // Check for recent subscriptions
-      if (paymentIntent.customer) {
-        const recentSubscriptions = await ctx.runQuery(
-          component.public.listSubscriptions,
-          {
-            stripeCustomerId: paymentIntent.customer as string,
-          },
+        const health = await ctx.runQuery(
+          component.public.getWebhookHealth,
+          {},
         );
+        return new Response(JSON.stringify(health), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      }),
+    });
+  }
+}
 
-        const recentWindowStart =
-          Date.now() / 1000 - RECENT_SUBSCRIPTION_WINDOW_SECONDS;
-        const recentSubscription = recentSubscriptions.find(
-          (sub: any) => sub._creationTime > recentWindowStart,
-        );
+/**
+ * Whether an API key (secret or restricted) is for live mode.
+ */
+function isLiveKey(apiKey: string): boolean {
+  return /^(sk|rk)_live_/.test(apiKey);
+}
 
-        if (recentSubscription) {
-          console.log(
-            "⏭️ Skipping payment_intent.succeeded - recent subscription",
-          );
-          break;
-        }
-      }
+/**
+ * Stripe request options for acting on a Stripe Connect account.
+ */
+function getRequestOptions(
+  stripeAccount: string | undefined,
+): StripeSDK.RequestOptions | undefined {
+  return stripeAccount ? { stripeAccount } : undefined;
+}
 
-      await ctx.runMutation(component.private.handlePaymentIntentSucceeded, {
-        stripePaymentIntentId: paymentIntent.id,
-        stripeCustomerId: paymentIntent.customer
-          ? (paymentIntent.customer as string)
-          : undefined,
-        amount: paymentIntent.amount,
-        currency: paymentIntent.currency,
-        status: paymentIntent.status,
-        created: paymentIntent.created,
-        metadata: paymentIntent.metadata || {},
-      });
-      break;
-    }
+/**
+ * Summarize a newly opened dispute, with the user and organization of the
+ * disputed payment if the component has synced it.
+ */
+async function getOpenedDispute(
+  ctx: QueryCtx,
+  component: ComponentApi,
+  event: StripeSDK.ChargeDisputeCreatedEvent,
+): Promise<StripeOpenedDispute> {
+  const dispute = event.data.object;
+  const stripePaymentIntentId =
+    typeof dispute.payment_intent === "string"
+      ? dispute.payment_intent
+      : dispute.payment_intent?.id;
+  const payment = stripePaymentIntentId
+    ? await ctx.runQuery(component.public.getPayment, {
+        stripePaymentIntentId,
+        includeTestData: true,
+      })
+    : null;
+
+  return {
+    stripeDisputeId: dispute.id,
+    stripeChargeId:
+      typeof dispute.charge === "string" ? dispute.charge : dispute.charge.id,
+    stripePaymentIntentId,
+    amount: dispute.amount,
+    currency: dispute.currency,
+    reason: dispute.reason,
+    status: dispute.status,
+    evidenceDueBy: dispute.evidence_details?.due_by ?? undefined,
+    userId: payment?.userId,
+    orgId: payment?.orgId,
+  };
+}
 
-    default:
-      console.log(`ℹ️ Unhandled event type: ${event.type}`);
-  }
+/**
+ * Resolve the webhook signing secrets to try, in order.
+ * The environment variable may hold several secrets separated by commas.
+ */
+function getWebhookSecrets(
+  config?: Pick<RegisterRoutesConfig, "STRIPE_WEBHOOK_SECRET">,
+): string[] {
+  const configured =
+    config?.STRIPE_WEBHOOK_SECRET || process.env.STRIPE_WEBHOOK_SECRET || [];
+  const secrets =
+    typeof configured === "string" ? configured.split(",") : configured;
+  return secrets.map((secret) => secret.trim()).filter(Boolean);
 }
 
 export default StripeSubscriptions;
@@ -1,5 +1,6 @@
 import type {
   HttpRouter,
+  FunctionReference,
   GenericActionCtx,
   GenericMutationCtx,
   GenericDataModel,
@@ -21,57 +22,262 @@ export type ActionCtx = Pick<
 
 // Webhook Event Handler Types
 
+/**
+ * Mutable bag shared by the middleware, hooks and inline handlers of one
+ * webhook request.
+ */
+export type StripeWebhookState = Record<string, unknown>;
+
 /**
  * Handler function for a specific Stripe webhook event.
- * Receives the action context and the full Stripe event object.
+ * Receives the action context, the full Stripe event object and the
+ * request's middleware state.
  */
 export type StripeEventHandler<
   T extends Stripe.Event.Type = Stripe.Event.Type,
+  TState extends StripeWebhookState = StripeWebhookState,
 > = (
   ctx: GenericActionCtx<GenericDataModel>,
   event: Stripe.Event & { type: T },
+  state: TState,
 ) => Promise<void>;
 
+/**
+ * Reference to an app action that handles Stripe webhook events, e.g.
+ * `internal.stripe.onSubscriptionUpdated`. It runs as its own scheduled job,
+ * with retries and a failure record, and receives the event as `{ event }`.
+ */
+export type StripeEventHandlerReference = FunctionReference<
+  "action",
+  "public" | "internal",
+  { event: any }
+>;
+
 /**
  * Map of event types to their handlers.
  * Users can provide handlers for any Stripe webhook event type.
  */
-export type StripeEventHandlers = {
-  [K in Stripe.Event.Type]?: StripeEventHandler<K>;
+export type StripeEventHandlers<
+  TState extends StripeWebhookState = StripeWebhookState,
+> = {
+  [K in Stripe.Event.Type]?:
+    | StripeEventHandler<K, TState>
+    | StripeEventHandlerReference;
+};
+
+/**
+ * Replacement for the component's default syncing of an event type, or
+ * `false` to turn default syncing off for it.
+ */
+export type StripeDefaultHandlers<
+  TState extends StripeWebhookState = StripeWebhookState,
+> = {
+  [K in Stripe.Event.Type]?:
+    | false
+    | StripeEventHandler<K, TState>
+    | StripeEventHandlerReference;
+};
+
+/**
+ * Hook that runs before default syncing of a specific event type.
+ * Return an event to sync that instead, e.g. with metadata the default
+ * mapping reads (like `orgId`) filled in.
+ */
+export type StripeBeforeDefaultHook<
+  T extends Stripe.Event.Type = Stripe.Event.Type,
+  TState extends StripeWebhookState = StripeWebhookState,
+> = (
+  ctx: GenericActionCtx<GenericDataModel>,
+  event: Stripe.Event & { type: T },
+  state: TState,
+) => Promise<(Stripe.Event & { type: T }) | void>;
+
+/**
+ * Map of event types to their before-default hooks.
+ */
+export type StripeBeforeDefaultHooks<
+  TState extends StripeWebhookState = StripeWebhookState,
+> = {
+  [K in Stripe.Event.Type]?: StripeBeforeDefaultHook<K, TState>;
+};
+
+/**
+ * A dispute that was just opened, linked to the user and organization of
+ * the disputed payment when the component has synced it.
+ */
+export type StripeOpenedDispute = {
+  stripeDisputeId: string;
+  stripeChargeId: string;
+  stripePaymentIntentId?: string;
+  /** Disputed amount in cents */
+  amount: number;
+  currency: string;
+  reason: string;
+  status: string;
+  /** Deadline for submitting evidence, in seconds since the epoch */
+  evidenceDueBy?: number;
+  userId?: string;
+  orgId?: string;
+};
+
+/**
+ * Handler called when a dispute is opened (`charge.dispute.created`).
+ */
+export type StripeDisputeCreatedHandler = (
+  ctx: GenericActionCtx<GenericDataModel>,
+  dispute: StripeOpenedDispute,
+  event: Stripe.Event & { type: "charge.dispute.created" },
+) => Promise<void>;
+
+/**
+ * What a webhook middleware receives, besides `next`.
+ */
+export type StripeWebhookMiddlewareContext<
+  TState extends StripeWebhookState = StripeWebhookState,
+> = {
+  ctx: GenericActionCtx<GenericDataModel>;
+  request: Request;
+  /** The verified event */
+  event: Stripe.Event;
+  /** Mutable bag passed down the chain and on to hooks and inline handlers */
+  state: TState;
 };
 
+/**
+ * Middleware that runs around webhook processing, after signature
+ * verification. Call `next` to continue down the chain and return its
+ * Response, or return a Response of your own to short-circuit.
+ */
+export type StripeWebhookMiddleware<
+  TState extends StripeWebhookState = StripeWebhookState,
+> = (
+  context: StripeWebhookMiddlewareContext<TState>,
+  next: () => Promise<Response>,
+) => Promise<Response>;
+
 /**
  * Configuration for webhook registration.
+ * `TState` types the middleware state passed to hooks and inline handlers.
+ * It starts out empty, so fields set by middleware should be optional.
  */
-export type RegisterRoutesConfig = {
+export type RegisterRoutesConfig<
+  TState extends StripeWebhookState = StripeWebhookState,
+> = {
   /**
    * Optional webhook path. Defaults to "/stripe/webhook"
    */
   webhookPath?: string;
 
   /**
-   * Optional event handlers that run after default processing.
-   * The component will handle database syncing automatically,
-   * and then call your custom handlers.
+   * Optional event handlers. Inline functions run in the webhook request
+   * once the event has been recorded; action references are scheduled to run
+   * on their own. Default database syncing runs separately in a scheduled
+   * component action, so it may not have completed yet.
+   */
+  events?: StripeEventHandlers<TState>;
+
+  /**
+   * Optionally register a GET route reporting webhook health: the last
+   * event per type, success/failure counts over rolling windows and the
+   * oldest unprocessed event, as JSON. `path` defaults to the webhook path
+   * followed by "/status". Requests must send `token` as
+   * `Authorization: Bearer <token>`; without a token, every request is
+   * refused.
    */
-  events?: StripeEventHandlers;
+  statusRoute?: {
+    path?: string;
+    token?: string;
+  };
+
+  /**
+   * Mode the webhook accepts events from: `true` for live mode, `false` for
+   * test mode. Events from the other mode are rejected with a 400 before
+   * anything is recorded. Accepts both modes if unset.
+   */
+  livemode?: boolean;
+
+  /**
+   * Optional middleware chain that runs around processing, in order.
+   * Each middleware can read the event, share data through `state` and
+   * short-circuit with its own Response.
+   */
+  middleware?: StripeWebhookMiddleware<TState>[];
 
   /**
    * Optional generic event handler that runs for all events.
-   * This runs after default processing and before specific event handlers.
+   * Inline, it runs before specific event handlers.
    */
-  onEvent?: StripeEventHandler;
+  onEvent?:
+    | StripeEventHandler<Stripe.Event.Type, TState>
+    | StripeEventHandlerReference;
+
+  /**
+   * Optional handler called as soon as a dispute is opened, e.g. to freeze
+   * the disputed account. It receives the dispute with the `userId` and
+   * `orgId` of the disputed payment, and runs inline like other handlers.
+   */
+  onDisputeCreated?: StripeDisputeCreatedHandler;
+
+  /**
+   * Whether an inline handler that throws makes the webhook respond 500, so
+   * Stripe re-delivers the event and the inline handlers run again. When
+   * false, the error is recorded on the event and the webhook responds 200.
+   * Scheduled handlers never affect the response.
+   * Defaults to true
+   */
+  failOnHandlerError?: boolean;
+
+  /**
+   * Optional overrides for the component's default syncing, per event type.
+   * `false` turns it off; a handler (inline or action reference) runs in its
+   * place, like a custom handler. Events are still recorded either way.
+   */
+  defaultHandlers?: StripeDefaultHandlers<TState>;
+
+  /**
+   * Optional hooks that run in the webhook request before the event is
+   * recorded and its default syncing is scheduled. A hook may return an
+   * event to sync in place of the received one. If a hook throws, the
+   * webhook responds 500 and nothing is recorded, so Stripe re-delivers the
+   * event. Hooks run on every delivery, including duplicates.
+   */
+  beforeDefault?: StripeBeforeDefaultHooks<TState>;
   /**
    * Stripe webhook secret for signature verification.
-   * Defaults to process.env.STRIPE_WEBHOOK_SECRET
+   * Pass several secrets to rotate without downtime, or to accept events
+   * from more than one endpoint (e.g. an account and a Connect endpoint).
+   * Each secret is tried in order.
+   * Defaults to process.env.STRIPE_WEBHOOK_SECRET (comma-separated for
+   * several secrets)
    */
-  STRIPE_WEBHOOK_SECRET?: string;
+  STRIPE_WEBHOOK_SECRET?: string | string[];
 
   /**
-   * Stripe secret key for API calls.
+   * Stripe secret key for API calls made while syncing events.
+   * Not needed for signature verification. If it is not set, events are
+   * synced from their payloads alone (see `payloadOnly`).
    * Defaults to process.env.STRIPE_SECRET_KEY
    */
   STRIPE_SECRET_KEY?: string;
+
+  /**
+   * Sync events from their payloads alone, without Stripe API calls, even
+   * when a secret key is available. Lookups that need the API (such as
+   * fetching a subscription's latest invoice on checkout) are skipped; that
+   * data arrives through its own events instead.
+   * Defaults to false
+   */
+  payloadOnly?: boolean;
+
+  /**
+   * Retrieve the latest version of each event's object from Stripe before
+   * syncing, instead of trusting the snapshot in the payload. Keeps the
+   * tables in line with Stripe however late or out of order events arrive,
+   * at the cost of one API call per event. Ignored in payload-only mode.
+   * Thin events always fetch their related object.
+   * Defaults to false
+   */
+  refetch?: boolean;
 };
 
 /**
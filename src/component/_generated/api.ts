@@ -10,6 +10,8 @@
 
 import type * as private_ from "../private.js";
 import type * as public_ from "../public.js";
+import type * as shared from "../shared.js";
+import type * as webhooks from "../webhooks.js";
 
 import type {
   ApiFromModules,
@@ -21,6 +23,8 @@ import { anyApi, componentsGeneric } from "convex/server";
 const fullApi: ApiFromModules<{
   private: typeof private_;
   public: typeof public_;
+  shared: typeof shared;
+  webhooks: typeof webhooks;
 }> = anyApi as any;
 
 /**
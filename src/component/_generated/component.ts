@@ -24,14 +24,112 @@ import type { FunctionReference } from "convex/server";
 export type ComponentApi<Name extends string | undefined = string | undefined> =
   {
     private: {
-      handleCheckoutSessionCompleted: FunctionReference<
+      enqueueWebhookEvent: FunctionReference<
         "mutation",
         "internal",
         {
+          apiKey?: string;
+          handlers?: Array<{ handle: string; handler: string }>;
+          inlineHandlers?: Array<string>;
+          payload: string;
+          refetch?: boolean;
+          skipDefault?: boolean;
+          stripeEventId: string;
+          type: string;
+        },
+        Array<string> | null,
+        Name
+      >;
+      getWebhookEventPayload: FunctionReference<
+        "query",
+        "internal",
+        { stripeEventId: string },
+        string | null,
+        Name
+      >;
+      getWebhookSigningSecrets: FunctionReference<
+        "query",
+        "internal",
+        {},
+        Array<string>,
+        Name
+      >;
+      handleChargeRefunded: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          amountRefunded: number;
+          eventCreated?: number;
+          stripePaymentIntentId: string;
+        },
+        null,
+        Name
+      >;
+      handleCheckoutSessionUpserted: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          amountTotal?: number;
+          currency?: string;
+          eventCreated?: number;
+          expiresAt?: number;
+          livemode?: boolean;
           metadata?: any;
           mode: string;
+          orgId?: string;
+          paymentStatus?: string;
+          status: string;
+          stripeAccountId?: string;
           stripeCheckoutSessionId: string;
           stripeCustomerId?: string;
+          url?: string;
+          userId?: string;
+        },
+        null,
+        Name
+      >;
+      handleCouponDeleted: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          amountOff?: number;
+          currency?: string;
+          duration: string;
+          durationInMonths?: number;
+          eventCreated?: number;
+          livemode?: boolean;
+          maxRedemptions?: number;
+          metadata?: any;
+          name?: string;
+          percentOff?: number;
+          redeemBy?: number;
+          stripeAccountId?: string;
+          stripeCouponId: string;
+          timesRedeemed: number;
+          valid: boolean;
+        },
+        null,
+        Name
+      >;
+      handleCouponUpserted: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          amountOff?: number;
+          currency?: string;
+          duration: string;
+          durationInMonths?: number;
+          eventCreated?: number;
+          livemode?: boolean;
+          maxRedemptions?: number;
+          metadata?: any;
+          name?: string;
+          percentOff?: number;
+          redeemBy?: number;
+          stripeAccountId?: string;
+          stripeCouponId: string;
+          timesRedeemed: number;
+          valid: boolean;
         },
         null,
         Name
@@ -40,9 +138,25 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          defaultPaymentMethodId?: string;
           email?: string;
+          eventCreated?: number;
+          livemode?: boolean;
           metadata?: any;
           name?: string;
+          stripeAccountId?: string;
+          stripeCustomerId: string;
+        },
+        null,
+        Name
+      >;
+      handleCustomerDeleted: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          eventCreated?: number;
+          livemode?: boolean;
+          stripeAccountId?: string;
           stripeCustomerId: string;
         },
         null,
@@ -52,14 +166,62 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          defaultPaymentMethodId?: string;
           email?: string;
+          eventCreated?: number;
+          livemode?: boolean;
           metadata?: any;
           name?: string;
+          stripeAccountId?: string;
           stripeCustomerId: string;
         },
         null,
         Name
       >;
+      handleDiscountUpserted: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          amountOff?: number;
+          currency?: string;
+          end?: number;
+          eventCreated?: number;
+          livemode?: boolean;
+          percentOff?: number;
+          removedAt?: number;
+          start: number;
+          stripeAccountId?: string;
+          stripeCouponId: string;
+          stripeCustomerId?: string;
+          stripeDiscountId: string;
+          stripeInvoiceId?: string;
+          stripePromotionCodeId?: string;
+          stripeSubscriptionId?: string;
+        },
+        null,
+        Name
+      >;
+      handleDisputeUpserted: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          amount: number;
+          created: number;
+          currency: string;
+          eventCreated?: number;
+          evidenceDueBy?: number;
+          livemode?: boolean;
+          metadata?: any;
+          reason: string;
+          status: string;
+          stripeAccountId?: string;
+          stripeChargeId: string;
+          stripeDisputeId: string;
+          stripePaymentIntentId?: string;
+        },
+        null,
+        Name
+      >;
       handleInvoiceCreated: FunctionReference<
         "mutation",
         "internal",
@@ -67,10 +229,47 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           amountDue: number;
           amountPaid: number;
           created: number;
+          currency?: string;
+          discounts?: Array<{
+            amountOff?: number;
+            currency?: string;
+            end?: number;
+            percentOff?: number;
+            stripeCouponId?: string;
+            stripeDiscountId: string;
+            stripePromotionCodeId?: string;
+          }>;
+          dueDate?: number;
+          eventCreated?: number;
+          hostedInvoiceUrl?: string;
+          invoicePdf?: string;
+          lines?: Array<{
+            amount: number;
+            currency: string;
+            description?: string;
+            metadata?: any;
+            periodEnd: number;
+            periodStart: number;
+            priceId?: string;
+            proration?: boolean;
+            quantity?: number;
+            stripeInvoiceLineItemId: string;
+            stripeProductId?: string;
+            stripeSubscriptionId?: string;
+            stripeSubscriptionItemId?: string;
+          }>;
+          livemode?: boolean;
+          number?: string;
+          periodEnd?: number;
+          periodStart?: number;
           status: string;
+          stripeAccountId?: string;
           stripeCustomerId: string;
           stripeInvoiceId: string;
           stripeSubscriptionId?: string;
+          subtotal?: number;
+          tax?: number;
+          total?: number;
         },
         null,
         Name
@@ -78,14 +277,66 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       handleInvoicePaid: FunctionReference<
         "mutation",
         "internal",
-        { amountPaid: number; stripeInvoiceId: string },
+        { amountPaid: number; eventCreated?: number; stripeInvoiceId: string },
         null,
         Name
       >;
       handleInvoicePaymentFailed: FunctionReference<
         "mutation",
         "internal",
-        { stripeInvoiceId: string },
+        { eventCreated?: number; stripeInvoiceId: string },
+        null,
+        Name
+      >;
+      handleInvoiceUpdated: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          amountDue: number;
+          amountPaid: number;
+          created: number;
+          currency?: string;
+          discounts?: Array<{
+            amountOff?: number;
+            currency?: string;
+            end?: number;
+            percentOff?: number;
+            stripeCouponId?: string;
+            stripeDiscountId: string;
+            stripePromotionCodeId?: string;
+          }>;
+          dueDate?: number;
+          eventCreated?: number;
+          hostedInvoiceUrl?: string;
+          invoicePdf?: string;
+          lines?: Array<{
+            amount: number;
+            currency: string;
+            description?: string;
+            metadata?: any;
+            periodEnd: number;
+            periodStart: number;
+            priceId?: string;
+            proration?: boolean;
+            quantity?: number;
+            stripeInvoiceLineItemId: string;
+            stripeProductId?: string;
+            stripeSubscriptionId?: string;
+            stripeSubscriptionItemId?: string;
+          }>;
+          livemode?: boolean;
+          number?: string;
+          periodEnd?: number;
+          periodStart?: number;
+          status: string;
+          stripeAccountId?: string;
+          stripeCustomerId: string;
+          stripeInvoiceId: string;
+          stripeSubscriptionId?: string;
+          subtotal?: number;
+          tax?: number;
+          total?: number;
+        },
         null,
         Name
       >;
@@ -96,157 +347,1012 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           amount: number;
           created: number;
           currency: string;
+          livemode?: boolean;
           metadata?: any;
           status: string;
+          stripeAccountId?: string;
           stripeCustomerId?: string;
           stripePaymentIntentId: string;
         },
         null,
         Name
       >;
-      handleSubscriptionCreated: FunctionReference<
-        "mutation",
+      handlePaymentMethodDetached: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          brand?: string;
+          eventCreated?: number;
+          expMonth?: number;
+          expYear?: number;
+          last4?: string;
+          livemode?: boolean;
+          metadata?: any;
+          stripeAccountId?: string;
+          stripeCustomerId?: string;
+          stripePaymentMethodId: string;
+          type: string;
+        },
+        null,
+        Name
+      >;
+      handlePaymentMethodUpserted: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          brand?: string;
+          eventCreated?: number;
+          expMonth?: number;
+          expYear?: number;
+          last4?: string;
+          livemode?: boolean;
+          metadata?: any;
+          stripeAccountId?: string;
+          stripeCustomerId: string;
+          stripePaymentMethodId: string;
+          type: string;
+        },
+        null,
+        Name
+      >;
+      handlePriceDeleted: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          active: boolean;
+          billingScheme: string;
+          currency: string;
+          eventCreated?: number;
+          livemode?: boolean;
+          lookupKey?: string;
+          metadata?: any;
+          nickname?: string;
+          recurringInterval?: string;
+          recurringIntervalCount?: number;
+          stripeAccountId?: string;
+          stripePriceId: string;
+          stripeProductId: string;
+          tiers?: Array<{
+            flatAmount?: number;
+            unitAmount?: number;
+            upTo: number | null;
+          }>;
+          tiersMode?: string;
+          type: string;
+          unitAmount?: number;
+        },
+        null,
+        Name
+      >;
+      handlePriceUpserted: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          active: boolean;
+          billingScheme: string;
+          currency: string;
+          eventCreated?: number;
+          livemode?: boolean;
+          lookupKey?: string;
+          metadata?: any;
+          nickname?: string;
+          recurringInterval?: string;
+          recurringIntervalCount?: number;
+          stripeAccountId?: string;
+          stripePriceId: string;
+          stripeProductId: string;
+          tiers?: Array<{
+            flatAmount?: number;
+            unitAmount?: number;
+            upTo: number | null;
+          }>;
+          tiersMode?: string;
+          type: string;
+          unitAmount?: number;
+        },
+        null,
+        Name
+      >;
+      handleProductDeleted: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          active: boolean;
+          defaultPriceId?: string;
+          description?: string;
+          eventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          name: string;
+          stripeAccountId?: string;
+          stripeProductId: string;
+        },
+        null,
+        Name
+      >;
+      handleProductUpserted: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          active: boolean;
+          defaultPriceId?: string;
+          description?: string;
+          eventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          name: string;
+          stripeAccountId?: string;
+          stripeProductId: string;
+        },
+        null,
+        Name
+      >;
+      handlePromotionCodeUpserted: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          active: boolean;
+          code: string;
+          eventCreated?: number;
+          expiresAt?: number;
+          livemode?: boolean;
+          maxRedemptions?: number;
+          metadata?: any;
+          stripeAccountId?: string;
+          stripeCouponId: string;
+          stripeCustomerId?: string;
+          stripePromotionCodeId: string;
+          timesRedeemed: number;
+        },
+        null,
+        Name
+      >;
+      handleRefundUpserted: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          amount: number;
+          created: number;
+          currency: string;
+          eventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          reason?: string;
+          status: string;
+          stripeAccountId?: string;
+          stripeChargeId?: string;
+          stripePaymentIntentId?: string;
+          stripeRefundId: string;
+        },
+        null,
+        Name
+      >;
+      handleSubscriptionCreated: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          cancelAt?: number;
+          cancelAtPeriodEnd: boolean;
+          canceledAt?: number;
+          collectionMethod?: string;
+          currentPeriodEnd: number;
+          currentPeriodStart?: number;
+          discounts?: Array<{
+            amountOff?: number;
+            currency?: string;
+            end?: number;
+            percentOff?: number;
+            stripeCouponId?: string;
+            stripeDiscountId: string;
+            stripePromotionCodeId?: string;
+          }>;
+          endedAt?: number;
+          eventCreated?: number;
+          items?: Array<{
+            currentPeriodEnd: number;
+            currentPeriodStart: number;
+            metadata?: any;
+            priceId: string;
+            quantity?: number;
+            stripeProductId?: string;
+            stripeSubscriptionItemId: string;
+          }>;
+          livemode?: boolean;
+          metadata?: any;
+          pauseCollection?: { behavior: string; resumesAt?: number };
+          priceId: string;
+          quantity?: number;
+          status: string;
+          stripeAccountId?: string;
+          stripeCustomerId: string;
+          stripeSubscriptionId: string;
+          trialEnd?: number;
+          trialStart?: number;
+        },
+        null,
+        Name
+      >;
+      handleSubscriptionDeleted: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          endedAt?: number;
+          eventCreated?: number;
+          stripeSubscriptionId: string;
+        },
+        null,
+        Name
+      >;
+      handleSubscriptionUpdated: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          cancelAt?: number;
+          cancelAtPeriodEnd: boolean;
+          canceledAt?: number;
+          collectionMethod?: string;
+          currentPeriodEnd: number;
+          currentPeriodStart?: number;
+          discounts?: Array<{
+            amountOff?: number;
+            currency?: string;
+            end?: number;
+            percentOff?: number;
+            stripeCouponId?: string;
+            stripeDiscountId: string;
+            stripePromotionCodeId?: string;
+          }>;
+          endedAt?: number;
+          eventCreated?: number;
+          items?: Array<{
+            currentPeriodEnd: number;
+            currentPeriodStart: number;
+            metadata?: any;
+            priceId: string;
+            quantity?: number;
+            stripeProductId?: string;
+            stripeSubscriptionItemId: string;
+          }>;
+          livemode?: boolean;
+          metadata?: any;
+          pauseCollection?: { behavior: string; resumesAt?: number };
+          priceId?: string;
+          quantity?: number;
+          status: string;
+          stripeAccountId?: string;
+          stripeCustomerId?: string;
+          stripeSubscriptionId: string;
+          trialEnd?: number;
+          trialStart?: number;
+        },
+        null,
+        Name
+      >;
+      isCustomerDeleted: FunctionReference<
+        "query",
+        "internal",
+        { stripeCustomerId: string },
+        boolean,
+        Name
+      >;
+      markWebhookEventProcessed: FunctionReference<
+        "mutation",
+        "internal",
+        { stripeEventId: string },
+        null,
+        Name
+      >;
+      markWebhookHandlerRunSucceeded: FunctionReference<
+        "mutation",
+        "internal",
+        { runId: string },
+        null,
+        Name
+      >;
+      markWebhookHandlersFailed: FunctionReference<
+        "mutation",
+        "internal",
+        { error: string; handlers: Array<string>; stripeEventId: string },
+        null,
+        Name
+      >;
+      recordWebhookEventFailure: FunctionReference<
+        "mutation",
+        "internal",
+        { apiKey?: string; error: string; stripeEventId: string },
+        null,
+        Name
+      >;
+      recordWebhookHandlerRunFailure: FunctionReference<
+        "mutation",
+        "internal",
+        { error: string; runId: string },
+        null,
+        Name
+      >;
+      startWebhookEventAttempt: FunctionReference<
+        "mutation",
+        "internal",
+        { stripeEventId: string },
+        { payload: string; refetch: boolean } | null,
+        Name
+      >;
+      startWebhookHandlerRun: FunctionReference<
+        "mutation",
+        "internal",
+        { runId: string },
+        { handle: string; payload: string } | null,
+        Name
+      >;
+      storeWebhookEndpoint: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          enabledEvents: Array<string>;
+          livemode: boolean;
+          secret?: string;
+          stripeWebhookEndpointId: string;
+          url: string;
+        },
+        null,
+        Name
+      >;
+      updatePaymentCustomer: FunctionReference<
+        "mutation",
+        "internal",
+        { stripeCustomerId: string; stripePaymentIntentId: string },
+        null,
+        Name
+      >;
+      updateSubscriptionQuantityInternal: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          priceId?: string;
+          quantity: number;
+          stripeSubscriptionId: string;
+          stripeSubscriptionItemId?: string;
+        },
+        null,
+        Name
+      >;
+    };
+    public: {
+      createOrUpdateCustomer: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          email?: string;
+          livemode?: boolean;
+          metadata?: any;
+          name?: string;
+          stripeAccountId?: string;
+          stripeCustomerId: string;
+        },
+        string,
+        Name
+      >;
+      createOrUpdateWebhookEndpoint: FunctionReference<
+        "action",
+        "internal",
+        {
+          apiKey: string;
+          events?: Array<string>;
+          excludedEvents?: Array<string>;
+          url: string;
+        },
+        {
+          created: boolean;
+          enabledEvents: Array<string>;
+          stripeWebhookEndpointId: string;
+          url: string;
+        },
+        Name
+      >;
+      getCheckoutSession: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripeCheckoutSessionId: string },
+        {
+          amountTotal?: number;
+          currency?: string;
+          expiresAt?: number;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          mode: string;
+          orgId?: string;
+          paymentStatus?: string;
+          status: string;
+          stripeAccountId?: string;
+          stripeCheckoutSessionId: string;
+          stripeCustomerId?: string;
+          url?: string;
+          userId?: string;
+        } | null,
+        Name
+      >;
+      getCoupon: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripeCouponId: string },
+        {
+          amountOff?: number;
+          currency?: string;
+          deleted?: boolean;
+          duration: string;
+          durationInMonths?: number;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          maxRedemptions?: number;
+          metadata?: any;
+          name?: string;
+          percentOff?: number;
+          redeemBy?: number;
+          stripeAccountId?: string;
+          stripeCouponId: string;
+          timesRedeemed: number;
+          valid: boolean;
+        } | null,
+        Name
+      >;
+      getCustomer: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripeCustomerId: string },
+        {
+          defaultPaymentMethodId?: string;
+          deleted?: boolean;
+          email?: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          name?: string;
+          stripeAccountId?: string;
+          stripeCustomerId: string;
+        } | null,
+        Name
+      >;
+      getDefaultPaymentMethod: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripeCustomerId: string },
+        {
+          brand?: string;
+          detached?: boolean;
+          expMonth?: number;
+          expYear?: number;
+          last4?: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          stripeAccountId?: string;
+          stripeCustomerId: string;
+          stripePaymentMethodId: string;
+          type: string;
+        } | null,
+        Name
+      >;
+      getPayment: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripePaymentIntentId: string },
+        {
+          amount: number;
+          amountRefunded?: number;
+          created: number;
+          currency: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          orgId?: string;
+          status: string;
+          stripeAccountId?: string;
+          stripeCustomerId?: string;
+          stripePaymentIntentId: string;
+          userId?: string;
+        } | null,
+        Name
+      >;
+      getPrice: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripePriceId: string },
+        {
+          active: boolean;
+          billingScheme: string;
+          currency: string;
+          deleted?: boolean;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          lookupKey?: string;
+          metadata?: any;
+          nickname?: string;
+          recurringInterval?: string;
+          recurringIntervalCount?: number;
+          stripeAccountId?: string;
+          stripePriceId: string;
+          stripeProductId: string;
+          tiers?: Array<{
+            flatAmount?: number;
+            unitAmount?: number;
+            upTo: number | null;
+          }>;
+          tiersMode?: string;
+          type: string;
+          unitAmount?: number;
+        } | null,
+        Name
+      >;
+      getPriceByLookupKey: FunctionReference<
+        "query",
+        "internal",
+        {
+          includeTestData?: boolean;
+          lookupKey: string;
+          stripeAccountId?: string;
+        },
+        {
+          active: boolean;
+          billingScheme: string;
+          currency: string;
+          deleted?: boolean;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          lookupKey?: string;
+          metadata?: any;
+          nickname?: string;
+          recurringInterval?: string;
+          recurringIntervalCount?: number;
+          stripeAccountId?: string;
+          stripePriceId: string;
+          stripeProductId: string;
+          tiers?: Array<{
+            flatAmount?: number;
+            unitAmount?: number;
+            upTo: number | null;
+          }>;
+          tiersMode?: string;
+          type: string;
+          unitAmount?: number;
+        } | null,
+        Name
+      >;
+      getProduct: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripeProductId: string },
+        {
+          active: boolean;
+          defaultPriceId?: string;
+          deleted?: boolean;
+          description?: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          name: string;
+          stripeAccountId?: string;
+          stripeProductId: string;
+        } | null,
+        Name
+      >;
+      getPromotionCode: FunctionReference<
+        "query",
+        "internal",
+        { code: string; includeTestData?: boolean },
+        {
+          active: boolean;
+          code: string;
+          expiresAt?: number;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          maxRedemptions?: number;
+          metadata?: any;
+          stripeAccountId?: string;
+          stripeCouponId: string;
+          stripeCustomerId?: string;
+          stripePromotionCodeId: string;
+          timesRedeemed: number;
+        } | null,
+        Name
+      >;
+      getSubscription: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripeSubscriptionId: string },
+        {
+          cancelAt?: number;
+          cancelAtPeriodEnd: boolean;
+          canceledAt?: number;
+          collectionMethod?: string;
+          currentPeriodEnd: number;
+          currentPeriodStart?: number;
+          discounts?: Array<{
+            amountOff?: number;
+            currency?: string;
+            end?: number;
+            percentOff?: number;
+            stripeCouponId?: string;
+            stripeDiscountId: string;
+            stripePromotionCodeId?: string;
+          }>;
+          endedAt?: number;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          orgId?: string;
+          pauseCollection?: { behavior: string; resumesAt?: number };
+          priceId: string;
+          quantity?: number;
+          status: string;
+          stripeAccountId?: string;
+          stripeCustomerId: string;
+          stripeSubscriptionId: string;
+          trialEnd?: number;
+          trialStart?: number;
+          userId?: string;
+        } | null,
+        Name
+      >;
+      getSubscriptionByOrgId: FunctionReference<
+        "query",
         "internal",
+        { includeTestData?: boolean; orgId: string },
         {
+          cancelAt?: number;
           cancelAtPeriodEnd: boolean;
+          canceledAt?: number;
+          collectionMethod?: string;
           currentPeriodEnd: number;
+          currentPeriodStart?: number;
+          discounts?: Array<{
+            amountOff?: number;
+            currency?: string;
+            end?: number;
+            percentOff?: number;
+            stripeCouponId?: string;
+            stripeDiscountId: string;
+            stripePromotionCodeId?: string;
+          }>;
+          endedAt?: number;
+          lastEventCreated?: number;
+          livemode?: boolean;
           metadata?: any;
+          orgId?: string;
+          pauseCollection?: { behavior: string; resumesAt?: number };
           priceId: string;
           quantity?: number;
           status: string;
+          stripeAccountId?: string;
           stripeCustomerId: string;
           stripeSubscriptionId: string;
-        },
-        null,
+          trialEnd?: number;
+          trialStart?: number;
+          userId?: string;
+        } | null,
         Name
       >;
-      handleSubscriptionDeleted: FunctionReference<
-        "mutation",
+      getWebhookHealth: FunctionReference<
+        "query",
         "internal",
-        { stripeSubscriptionId: string },
-        null,
+        {},
+        {
+          lastEventByType: Array<{
+            receivedAt: number;
+            stripeEventId: string;
+            type: string;
+          }>;
+          oldestUnprocessedEvent: {
+            receivedAt: number;
+            status: string;
+            stripeEventId: string;
+            type: string;
+          } | null;
+          windows: Array<{
+            failed: number;
+            processed: number;
+            received: number;
+            window: string;
+          }>;
+        },
         Name
       >;
-      handleSubscriptionUpdated: FunctionReference<
-        "mutation",
+      listActivePrices: FunctionReference<
+        "query",
         "internal",
         {
-          cancelAtPeriodEnd: boolean;
-          currentPeriodEnd: number;
-          metadata?: any;
-          quantity?: number;
-          status: string;
-          stripeSubscriptionId: string;
+          includeTestData?: boolean;
+          stripeAccountId?: string;
+          stripeProductId?: string;
         },
-        null,
+        Array<{
+          active: boolean;
+          billingScheme: string;
+          currency: string;
+          deleted?: boolean;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          lookupKey?: string;
+          metadata?: any;
+          nickname?: string;
+          recurringInterval?: string;
+          recurringIntervalCount?: number;
+          stripeAccountId?: string;
+          stripePriceId: string;
+          stripeProductId: string;
+          tiers?: Array<{
+            flatAmount?: number;
+            unitAmount?: number;
+            upTo: number | null;
+          }>;
+          tiersMode?: string;
+          type: string;
+          unitAmount?: number;
+        }>,
         Name
       >;
-      updatePaymentCustomer: FunctionReference<
-        "mutation",
+      listActiveProducts: FunctionReference<
+        "query",
         "internal",
-        { stripeCustomerId: string; stripePaymentIntentId: string },
-        null,
+        { includeTestData?: boolean; stripeAccountId?: string },
+        Array<{
+          active: boolean;
+          defaultPriceId?: string;
+          deleted?: boolean;
+          description?: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          name: string;
+          stripeAccountId?: string;
+          stripeProductId: string;
+        }>,
         Name
       >;
-      updateSubscriptionQuantityInternal: FunctionReference<
-        "mutation",
+      listCouponRedemptions: FunctionReference<
+        "query",
         "internal",
-        { quantity: number; stripeSubscriptionId: string },
-        null,
+        { includeTestData?: boolean; stripeCouponId: string },
+        Array<{
+          amountOff?: number;
+          currency?: string;
+          end?: number;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          percentOff?: number;
+          removedAt?: number;
+          start: number;
+          stripeAccountId?: string;
+          stripeCouponId: string;
+          stripeCustomerId?: string;
+          stripeDiscountId: string;
+          stripeInvoiceId?: string;
+          stripePromotionCodeId?: string;
+          stripeSubscriptionId?: string;
+        }>,
         Name
       >;
-    };
-    public: {
-      createOrUpdateCustomer: FunctionReference<
-        "mutation",
+      listCustomersByAccountId: FunctionReference<
+        "query",
         "internal",
-        {
+        { includeTestData?: boolean; stripeAccountId: string },
+        Array<{
+          defaultPaymentMethodId?: string;
+          deleted?: boolean;
           email?: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
           metadata?: any;
           name?: string;
+          stripeAccountId?: string;
           stripeCustomerId: string;
-        },
-        string,
+        }>,
         Name
       >;
-      getCustomer: FunctionReference<
+      listDisputes: FunctionReference<
         "query",
         "internal",
-        { stripeCustomerId: string },
-        {
-          email?: string;
+        { includeTestData?: boolean; stripePaymentIntentId: string },
+        Array<{
+          amount: number;
+          created: number;
+          currency: string;
+          evidenceDueBy?: number;
+          lastEventCreated?: number;
+          livemode?: boolean;
           metadata?: any;
-          name?: string;
-          stripeCustomerId: string;
-        } | null,
+          orgId?: string;
+          reason: string;
+          status: string;
+          stripeAccountId?: string;
+          stripeChargeId: string;
+          stripeDisputeId: string;
+          stripePaymentIntentId?: string;
+          userId?: string;
+        }>,
         Name
       >;
-      getPayment: FunctionReference<
+      listDisputesByOrgId: FunctionReference<
         "query",
         "internal",
-        { stripePaymentIntentId: string },
-        {
+        { includeTestData?: boolean; orgId: string },
+        Array<{
           amount: number;
           created: number;
           currency: string;
+          evidenceDueBy?: number;
+          lastEventCreated?: number;
+          livemode?: boolean;
           metadata?: any;
           orgId?: string;
+          reason: string;
           status: string;
-          stripeCustomerId?: string;
-          stripePaymentIntentId: string;
+          stripeAccountId?: string;
+          stripeChargeId: string;
+          stripeDisputeId: string;
+          stripePaymentIntentId?: string;
           userId?: string;
-        } | null,
+        }>,
         Name
       >;
-      getSubscription: FunctionReference<
+      listDisputesByUserId: FunctionReference<
         "query",
         "internal",
-        { stripeSubscriptionId: string },
-        {
-          cancelAtPeriodEnd: boolean;
-          currentPeriodEnd: number;
+        { includeTestData?: boolean; userId: string },
+        Array<{
+          amount: number;
+          created: number;
+          currency: string;
+          evidenceDueBy?: number;
+          lastEventCreated?: number;
+          livemode?: boolean;
           metadata?: any;
           orgId?: string;
-          priceId: string;
-          quantity?: number;
+          reason: string;
           status: string;
-          stripeCustomerId: string;
-          stripeSubscriptionId: string;
+          stripeAccountId?: string;
+          stripeChargeId: string;
+          stripeDisputeId: string;
+          stripePaymentIntentId?: string;
           userId?: string;
-        } | null,
+        }>,
         Name
       >;
-      getSubscriptionByOrgId: FunctionReference<
+      listFailedWebhookEvents: FunctionReference<
         "query",
         "internal",
-        { orgId: string },
-        {
-          cancelAtPeriodEnd: boolean;
-          currentPeriodEnd: number;
+        { limit?: number },
+        Array<{
+          attempts: number;
+          error?: string;
+          failedHandlers?: Array<string>;
+          lastAttemptAt?: number;
+          livemode?: boolean;
+          objectId?: string;
+          payload: string;
+          processedAt?: number;
+          receivedAt: number;
+          refetch?: boolean;
+          status: string;
+          stripeEventId: string;
+          type: string;
+        }>,
+        Name
+      >;
+      listFailedWebhookHandlerRuns: FunctionReference<
+        "query",
+        "internal",
+        { limit?: number },
+        Array<{
+          attempts: number;
+          completedAt?: number;
+          error?: string;
+          handle: string;
+          handler: string;
+          lastAttemptAt?: number;
+          status: string;
+          stripeEventId: string;
+        }>,
+        Name
+      >;
+      listInvoiceLineItems: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripeInvoiceId: string },
+        Array<{
+          amount: number;
+          currency: string;
+          description?: string;
+          livemode?: boolean;
           metadata?: any;
-          orgId?: string;
-          priceId: string;
+          periodEnd: number;
+          periodStart: number;
+          priceId?: string;
+          proration?: boolean;
           quantity?: number;
+          stripeAccountId?: string;
+          stripeInvoiceId: string;
+          stripeInvoiceLineItemId: string;
+          stripeProductId?: string;
+          stripeSubscriptionId?: string;
+          stripeSubscriptionItemId?: string;
+        }>,
+        Name
+      >;
+      listInvoices: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripeCustomerId: string },
+        Array<{
+          amountDue: number;
+          amountPaid: number;
+          created: number;
+          currency?: string;
+          discounts?: Array<{
+            amountOff?: number;
+            currency?: string;
+            end?: number;
+            percentOff?: number;
+            stripeCouponId?: string;
+            stripeDiscountId: string;
+            stripePromotionCodeId?: string;
+          }>;
+          dueDate?: number;
+          hostedInvoiceUrl?: string;
+          invoicePdf?: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          number?: string;
+          orgId?: string;
+          periodEnd?: number;
+          periodStart?: number;
           status: string;
+          stripeAccountId?: string;
           stripeCustomerId: string;
-          stripeSubscriptionId: string;
+          stripeInvoiceId: string;
+          stripeSubscriptionId?: string;
+          subtotal?: number;
+          tax?: number;
+          total?: number;
           userId?: string;
-        } | null,
+        }>,
         Name
       >;
-      listInvoices: FunctionReference<
+      listInvoicesByAccountId: FunctionReference<
         "query",
         "internal",
-        { stripeCustomerId: string },
+        { includeTestData?: boolean; stripeAccountId: string },
         Array<{
           amountDue: number;
           amountPaid: number;
           created: number;
+          currency?: string;
+          discounts?: Array<{
+            amountOff?: number;
+            currency?: string;
+            end?: number;
+            percentOff?: number;
+            stripeCouponId?: string;
+            stripeDiscountId: string;
+            stripePromotionCodeId?: string;
+          }>;
+          dueDate?: number;
+          hostedInvoiceUrl?: string;
+          invoicePdf?: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          number?: string;
           orgId?: string;
+          periodEnd?: number;
+          periodStart?: number;
           status: string;
+          stripeAccountId?: string;
           stripeCustomerId: string;
           stripeInvoiceId: string;
           stripeSubscriptionId?: string;
+          subtotal?: number;
+          tax?: number;
+          total?: number;
           userId?: string;
         }>,
         Name
@@ -254,16 +1360,38 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       listInvoicesByOrgId: FunctionReference<
         "query",
         "internal",
-        { orgId: string },
+        { includeTestData?: boolean; orgId: string },
         Array<{
           amountDue: number;
           amountPaid: number;
           created: number;
+          currency?: string;
+          discounts?: Array<{
+            amountOff?: number;
+            currency?: string;
+            end?: number;
+            percentOff?: number;
+            stripeCouponId?: string;
+            stripeDiscountId: string;
+            stripePromotionCodeId?: string;
+          }>;
+          dueDate?: number;
+          hostedInvoiceUrl?: string;
+          invoicePdf?: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          number?: string;
           orgId?: string;
+          periodEnd?: number;
+          periodStart?: number;
           status: string;
+          stripeAccountId?: string;
           stripeCustomerId: string;
           stripeInvoiceId: string;
           stripeSubscriptionId?: string;
+          subtotal?: number;
+          tax?: number;
+          total?: number;
           userId?: string;
         }>,
         Name
@@ -271,31 +1399,98 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       listInvoicesByUserId: FunctionReference<
         "query",
         "internal",
-        { userId: string },
+        { includeTestData?: boolean; userId: string },
         Array<{
           amountDue: number;
           amountPaid: number;
           created: number;
+          currency?: string;
+          discounts?: Array<{
+            amountOff?: number;
+            currency?: string;
+            end?: number;
+            percentOff?: number;
+            stripeCouponId?: string;
+            stripeDiscountId: string;
+            stripePromotionCodeId?: string;
+          }>;
+          dueDate?: number;
+          hostedInvoiceUrl?: string;
+          invoicePdf?: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          number?: string;
           orgId?: string;
+          periodEnd?: number;
+          periodStart?: number;
           status: string;
+          stripeAccountId?: string;
           stripeCustomerId: string;
           stripeInvoiceId: string;
           stripeSubscriptionId?: string;
+          subtotal?: number;
+          tax?: number;
+          total?: number;
           userId?: string;
         }>,
         Name
       >;
+      listPaymentMethods: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripeCustomerId: string },
+        Array<{
+          brand?: string;
+          detached?: boolean;
+          expMonth?: number;
+          expYear?: number;
+          last4?: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          stripeAccountId?: string;
+          stripeCustomerId: string;
+          stripePaymentMethodId: string;
+          type: string;
+        }>,
+        Name
+      >;
       listPayments: FunctionReference<
         "query",
         "internal",
-        { stripeCustomerId: string },
+        { includeTestData?: boolean; stripeCustomerId: string },
+        Array<{
+          amount: number;
+          amountRefunded?: number;
+          created: number;
+          currency: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          orgId?: string;
+          status: string;
+          stripeAccountId?: string;
+          stripeCustomerId?: string;
+          stripePaymentIntentId: string;
+          userId?: string;
+        }>,
+        Name
+      >;
+      listPaymentsByAccountId: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripeAccountId: string },
         Array<{
           amount: number;
+          amountRefunded?: number;
           created: number;
           currency: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
           metadata?: any;
           orgId?: string;
           status: string;
+          stripeAccountId?: string;
           stripeCustomerId?: string;
           stripePaymentIntentId: string;
           userId?: string;
@@ -305,14 +1500,18 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       listPaymentsByOrgId: FunctionReference<
         "query",
         "internal",
-        { orgId: string },
+        { includeTestData?: boolean; orgId: string },
         Array<{
           amount: number;
+          amountRefunded?: number;
           created: number;
           currency: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
           metadata?: any;
           orgId?: string;
           status: string;
+          stripeAccountId?: string;
           stripeCustomerId?: string;
           stripePaymentIntentId: string;
           userId?: string;
@@ -322,34 +1521,181 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       listPaymentsByUserId: FunctionReference<
         "query",
         "internal",
-        { userId: string },
+        { includeTestData?: boolean; userId: string },
         Array<{
           amount: number;
+          amountRefunded?: number;
           created: number;
           currency: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
           metadata?: any;
           orgId?: string;
           status: string;
+          stripeAccountId?: string;
           stripeCustomerId?: string;
           stripePaymentIntentId: string;
           userId?: string;
         }>,
         Name
       >;
+      listPromotionCodeRedemptions: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripePromotionCodeId: string },
+        Array<{
+          amountOff?: number;
+          currency?: string;
+          end?: number;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          percentOff?: number;
+          removedAt?: number;
+          start: number;
+          stripeAccountId?: string;
+          stripeCouponId: string;
+          stripeCustomerId?: string;
+          stripeDiscountId: string;
+          stripeInvoiceId?: string;
+          stripePromotionCodeId?: string;
+          stripeSubscriptionId?: string;
+        }>,
+        Name
+      >;
+      listRefunds: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripePaymentIntentId: string },
+        Array<{
+          amount: number;
+          created: number;
+          currency: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          orgId?: string;
+          reason?: string;
+          status: string;
+          stripeAccountId?: string;
+          stripeChargeId?: string;
+          stripePaymentIntentId?: string;
+          stripeRefundId: string;
+          userId?: string;
+        }>,
+        Name
+      >;
+      listRefundsByUserId: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; userId: string },
+        Array<{
+          amount: number;
+          created: number;
+          currency: string;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          orgId?: string;
+          reason?: string;
+          status: string;
+          stripeAccountId?: string;
+          stripeChargeId?: string;
+          stripePaymentIntentId?: string;
+          stripeRefundId: string;
+          userId?: string;
+        }>,
+        Name
+      >;
+      listSubscriptionItems: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripeSubscriptionId: string },
+        Array<{
+          currentPeriodEnd: number;
+          currentPeriodStart: number;
+          livemode?: boolean;
+          metadata?: any;
+          priceId: string;
+          quantity?: number;
+          stripeAccountId?: string;
+          stripeProductId?: string;
+          stripeSubscriptionId: string;
+          stripeSubscriptionItemId: string;
+        }>,
+        Name
+      >;
       listSubscriptions: FunctionReference<
         "query",
         "internal",
-        { stripeCustomerId: string },
+        { includeTestData?: boolean; stripeCustomerId: string },
+        Array<{
+          cancelAt?: number;
+          cancelAtPeriodEnd: boolean;
+          canceledAt?: number;
+          collectionMethod?: string;
+          currentPeriodEnd: number;
+          currentPeriodStart?: number;
+          discounts?: Array<{
+            amountOff?: number;
+            currency?: string;
+            end?: number;
+            percentOff?: number;
+            stripeCouponId?: string;
+            stripeDiscountId: string;
+            stripePromotionCodeId?: string;
+          }>;
+          endedAt?: number;
+          lastEventCreated?: number;
+          livemode?: boolean;
+          metadata?: any;
+          orgId?: string;
+          pauseCollection?: { behavior: string; resumesAt?: number };
+          priceId: string;
+          quantity?: number;
+          status: string;
+          stripeAccountId?: string;
+          stripeCustomerId: string;
+          stripeSubscriptionId: string;
+          trialEnd?: number;
+          trialStart?: number;
+          userId?: string;
+        }>,
+        Name
+      >;
+      listSubscriptionsByAccountId: FunctionReference<
+        "query",
+        "internal",
+        { includeTestData?: boolean; stripeAccountId: string },
         Array<{
+          cancelAt?: number;
           cancelAtPeriodEnd: boolean;
+          canceledAt?: number;
+          collectionMethod?: string;
           currentPeriodEnd: number;
+          currentPeriodStart?: number;
+          discounts?: Array<{
+            amountOff?: number;
+            currency?: string;
+            end?: number;
+            percentOff?: number;
+            stripeCouponId?: string;
+            stripeDiscountId: string;
+            stripePromotionCodeId?: string;
+          }>;
+          endedAt?: number;
+          lastEventCreated?: number;
+          livemode?: boolean;
           metadata?: any;
           orgId?: string;
+          pauseCollection?: { behavior: string; resumesAt?: number };
           priceId: string;
           quantity?: number;
           status: string;
+          stripeAccountId?: string;
           stripeCustomerId: string;
           stripeSubscriptionId: string;
+          trialEnd?: number;
+          trialStart?: number;
           userId?: string;
         }>,
         Name
@@ -357,21 +1703,94 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       listSubscriptionsByUserId: FunctionReference<
         "query",
         "internal",
-        { userId: string },
+        { includeTestData?: boolean; userId: string },
         Array<{
+          cancelAt?: number;
           cancelAtPeriodEnd: boolean;
+          canceledAt?: number;
+          collectionMethod?: string;
           currentPeriodEnd: number;
+          currentPeriodStart?: number;
+          discounts?: Array<{
+            amountOff?: number;
+            currency?: string;
+            end?: number;
+            percentOff?: number;
+            stripeCouponId?: string;
+            stripeDiscountId: string;
+            stripePromotionCodeId?: string;
+          }>;
+          endedAt?: number;
+          lastEventCreated?: number;
+          livemode?: boolean;
           metadata?: any;
           orgId?: string;
+          pauseCollection?: { behavior: string; resumesAt?: number };
           priceId: string;
           quantity?: number;
           status: string;
+          stripeAccountId?: string;
           stripeCustomerId: string;
           stripeSubscriptionId: string;
+          trialEnd?: number;
+          trialStart?: number;
           userId?: string;
         }>,
         Name
       >;
+      listWebhookEvents: FunctionReference<
+        "query",
+        "internal",
+        {
+          objectId?: string;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          status?: string;
+          type?: string;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            attempts: number;
+            error?: string;
+            failedHandlers?: Array<string>;
+            lastAttemptAt?: number;
+            livemode?: boolean;
+            objectId?: string;
+            payload: string;
+            processedAt?: number;
+            receivedAt: number;
+            refetch?: boolean;
+            status: string;
+            stripeEventId: string;
+            type: string;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      replayFailedWebhookEvents: FunctionReference<
+        "mutation",
+        "internal",
+        { apiKey?: string; limit?: number },
+        number,
+        Name
+      >;
+      replayWebhookEvent: FunctionReference<
+        "mutation",
+        "internal",
+        { apiKey?: string; stripeEventId: string },
+        boolean,
+        Name
+      >;
       updateSubscriptionMetadata: FunctionReference<
         "mutation",
         "internal",
@@ -387,7 +1806,30 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       updateSubscriptionQuantity: FunctionReference<
         "action",
         "internal",
-        { apiKey: string; quantity: number; stripeSubscriptionId: string },
+        {
+          apiKey: string;
+          priceId?: string;
+          quantity: number;
+          stripeAccount?: string;
+          stripeSubscriptionId: string;
+          stripeSubscriptionItemId?: string;
+        },
+        null,
+        Name
+      >;
+    };
+    webhooks: {
+      processWebhookEvent: FunctionReference<
+        "action",
+        "internal",
+        { apiKey?: string; stripeEventId: string },
+        null,
+        Name
+      >;
+      runWebhookHandler: FunctionReference<
+        "action",
+        "internal",
+        { runId: string },
         null,
         Name
       >;
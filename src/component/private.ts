@@ -1,5 +1,293 @@
-import { v } from "convex/values";
-import { mutation } from "./_generated/server.js";
+import type {
+  WithOptionalSystemFields,
+  WithoutSystemFields,
+} from "convex/server";
+import { v, type ObjectType } from "convex/values";
+import {
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server.js";
+import { api } from "./_generated/api.js";
+import type { Doc, TableNames } from "./_generated/dataModel.js";
+import {
+  appliedDiscountValidator,
+  pauseCollectionValidator,
+} from "./schema.js";
+
+/**
+ * Stripe does not guarantee webhook delivery order. Returns true when the
+ * event that produced an update is older than the last event applied to the
+ * row, in which case the update is stale and should be ignored.
+ */
+function isStaleEvent(
+  row: { lastEventCreated?: number },
+  eventCreated: number | undefined,
+) {
+  return (
+    eventCreated !== undefined &&
+    row.lastEventCreated !== undefined &&
+    eventCreated < row.lastEventCreated
+  );
+}
+
+// Tables of synced Stripe objects, which record the last event applied
+type SyncedTableName = {
+  [T in TableNames]: "lastEventCreated" extends keyof Doc<T> ? T : never;
+}[TableNames];
+
+/**
+ * Insert a synced row, or replace the existing one unless the event is stale.
+ * Replacing clears fields Stripe no longer sets. Returns false when nothing
+ * was written.
+ */
+async function upsertSyncedRow<T extends SyncedTableName>(
+  ctx: MutationCtx,
+  table: T,
+  existing: (Doc<T> & { lastEventCreated?: number }) | null,
+  eventCreated: number | undefined,
+  fields: WithoutSystemFields<Doc<T>>,
+) {
+  if (existing && isStaleEvent(existing, eventCreated)) {
+    return false;
+  }
+
+  const row: WithoutSystemFields<Doc<T>> = {
+    ...fields,
+    lastEventCreated: eventCreated ?? existing?.lastEventCreated,
+  };
+  if (existing) {
+    // TypeScript can't relate the document types of a generic table
+    await ctx.db.replace(existing._id, row as WithOptionalSystemFields<Doc<T>>);
+  } else {
+    await ctx.db.insert(table, row);
+  }
+  return true;
+}
+
+/**
+ * Apply a terminal change, like a deletion, to a synced row. It applies
+ * regardless of order, and recording its timestamp keeps an older update from
+ * reverting it afterwards. Without a row, `fields` are inserted along with the
+ * change, so a late create event does not add the object back.
+ */
+async function markTombstoned<T extends SyncedTableName>(
+  ctx: MutationCtx,
+  table: T,
+  existing: (Doc<T> & { lastEventCreated?: number }) | null,
+  eventCreated: number | undefined,
+  tombstone: Partial<Doc<T>>,
+  fields?: WithoutSystemFields<Doc<T>>,
+) {
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      ...tombstone,
+      ...(eventCreated !== undefined && {
+        lastEventCreated: Math.max(
+          eventCreated,
+          existing.lastEventCreated ?? 0,
+        ),
+      }),
+    });
+  } else if (fields) {
+    await ctx.db.insert(table, {
+      ...fields,
+      ...tombstone,
+      lastEventCreated: eventCreated,
+    });
+  }
+}
+
+// Lifecycle fields of a subscription. Unset fields are cleared on update,
+// matching a null in Stripe.
+const subscriptionLifecycleFields = {
+  currentPeriodStart: v.optional(v.number()),
+  trialStart: v.optional(v.number()),
+  trialEnd: v.optional(v.number()),
+  cancelAt: v.optional(v.number()),
+  canceledAt: v.optional(v.number()),
+  endedAt: v.optional(v.number()),
+  pauseCollection: v.optional(pauseCollectionValidator),
+  collectionMethod: v.optional(v.string()),
+};
+
+const subscriptionItemValidator = v.object({
+  stripeSubscriptionItemId: v.string(),
+  priceId: v.string(),
+  stripeProductId: v.optional(v.string()),
+  quantity: v.optional(v.number()),
+  currentPeriodStart: v.number(),
+  currentPeriodEnd: v.number(),
+  metadata: v.optional(v.any()),
+});
+
+/**
+ * Replace the stored items of a subscription with `items`, the complete
+ * list from Stripe. Items no longer on the subscription are removed.
+ */
+async function syncSubscriptionItems(
+  ctx: MutationCtx,
+  subscription: Doc<"subscriptions">,
+  items: (typeof subscriptionItemValidator.type)[],
+) {
+  const existing = await ctx.db
+    .query("subscription_items")
+    .withIndex("by_stripe_subscription_id", (q) =>
+      q.eq("stripeSubscriptionId", subscription.stripeSubscriptionId),
+    )
+    .collect();
+
+  for (const item of items) {
+    const row = existing.find(
+      (e) => e.stripeSubscriptionItemId === item.stripeSubscriptionItemId,
+    );
+    const fields = {
+      ...item,
+      stripeSubscriptionId: subscription.stripeSubscriptionId,
+      metadata: item.metadata || {},
+      stripeAccountId: subscription.stripeAccountId,
+      livemode: subscription.livemode,
+    };
+    if (row) {
+      await ctx.db.replace(row._id, fields);
+    } else {
+      await ctx.db.insert("subscription_items", fields);
+    }
+  }
+
+  for (const row of existing) {
+    if (
+      !items.some(
+        (item) =>
+          item.stripeSubscriptionItemId === row.stripeSubscriptionItemId,
+      )
+    ) {
+      await ctx.db.delete(row._id);
+    }
+  }
+}
+
+const invoiceLineItemValidator = v.object({
+  stripeInvoiceLineItemId: v.string(),
+  description: v.optional(v.string()),
+  amount: v.number(),
+  currency: v.string(),
+  quantity: v.optional(v.number()),
+  priceId: v.optional(v.string()),
+  stripeProductId: v.optional(v.string()),
+  stripeSubscriptionId: v.optional(v.string()),
+  stripeSubscriptionItemId: v.optional(v.string()),
+  proration: v.optional(v.boolean()),
+  periodStart: v.number(),
+  periodEnd: v.number(),
+  metadata: v.optional(v.any()),
+});
+
+/**
+ * Replace the stored line items of an invoice with `lines`, the complete
+ * list from Stripe. Lines no longer on the invoice are removed.
+ */
+async function syncInvoiceLineItems(
+  ctx: MutationCtx,
+  invoice: Doc<"invoices">,
+  lines: (typeof invoiceLineItemValidator.type)[],
+) {
+  const existing = await ctx.db
+    .query("invoice_line_items")
+    .withIndex("by_stripe_invoice_id", (q) =>
+      q.eq("stripeInvoiceId", invoice.stripeInvoiceId),
+    )
+    .collect();
+
+  for (const line of lines) {
+    const row = existing.find(
+      (e) => e.stripeInvoiceLineItemId === line.stripeInvoiceLineItemId,
+    );
+    const fields = {
+      ...line,
+      stripeInvoiceId: invoice.stripeInvoiceId,
+      metadata: line.metadata || {},
+      stripeAccountId: invoice.stripeAccountId,
+      livemode: invoice.livemode,
+    };
+    if (row) {
+      await ctx.db.replace(row._id, fields);
+    } else {
+      await ctx.db.insert("invoice_line_items", fields);
+    }
+  }
+
+  for (const row of existing) {
+    if (
+      !lines.some(
+        (line) => line.stripeInvoiceLineItemId === row.stripeInvoiceLineItemId,
+      )
+    ) {
+      await ctx.db.delete(row._id);
+    }
+  }
+}
+
+/**
+ * Fill in the coupon details of applied discounts from the synced discounts
+ * and coupons. Webhook payloads usually list discounts by ID only.
+ */
+async function resolveDiscounts(
+  ctx: MutationCtx,
+  discounts: (typeof appliedDiscountValidator.type)[],
+) {
+  const resolved = [];
+  for (const discount of discounts) {
+    const synced = await ctx.db
+      .query("discounts")
+      .withIndex("by_stripe_discount_id", (q) =>
+        q.eq("stripeDiscountId", discount.stripeDiscountId),
+      )
+      .unique();
+    const stripeCouponId = discount.stripeCouponId ?? synced?.stripeCouponId;
+    const coupon = stripeCouponId
+      ? await ctx.db
+          .query("coupons")
+          .withIndex("by_stripe_coupon_id", (q) =>
+            q.eq("stripeCouponId", stripeCouponId),
+          )
+          .unique()
+      : null;
+    const source = synced ?? coupon;
+
+    resolved.push({
+      stripeDiscountId: discount.stripeDiscountId,
+      stripeCouponId,
+      stripePromotionCodeId:
+        discount.stripePromotionCodeId ?? synced?.stripePromotionCodeId,
+      percentOff: discount.percentOff ?? source?.percentOff,
+      amountOff: discount.amountOff ?? source?.amountOff,
+      currency: discount.currency ?? source?.currency,
+      end: discount.end ?? synced?.end,
+    });
+  }
+  return resolved;
+}
+
+/**
+ * Payment status once `amountRefunded` of `amount` has been refunded. Only
+ * succeeded payments are refunded, so with nothing refunded it is that again.
+ */
+function getRefundedPaymentStatus(amount: number, amountRefunded: number) {
+  if (amountRefunded <= 0) {
+    return "succeeded";
+  }
+  return amountRefunded >= amount ? "refunded" : "partially_refunded";
+}
+
+/**
+ * Whether a refund with this status no longer counts towards the refunded
+ * amount of its payment.
+ */
+function isVoidedRefund(status: string) {
+  return status === "failed" || status === "canceled";
+}
 
 // ============================================================================
 // INTERNAL MUTATIONS (for webhooks and internal use)
@@ -9,6 +297,10 @@ export const updateSubscriptionQuantityInternal = mutation({
   args: {
     stripeSubscriptionId: v.string(),
     quantity: v.number(),
+    // The item that changed and its price. Without them, the first item is
+    // assumed.
+    stripeSubscriptionItemId: v.optional(v.string()),
+    priceId: v.optional(v.string()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -19,12 +311,29 @@ export const updateSubscriptionQuantityInternal = mutation({
       )
       .unique();
 
-    if (subscription) {
+    // The subscription row mirrors the first item
+    if (
+      subscription &&
+      (args.priceId === undefined || args.priceId === subscription.priceId)
+    ) {
       await ctx.db.patch(subscription._id, {
         quantity: args.quantity,
       });
     }
 
+    if (args.stripeSubscriptionItemId) {
+      const item = await ctx.db
+        .query("subscription_items")
+        .withIndex("by_stripe_subscription_item_id", (q) =>
+          q.eq("stripeSubscriptionItemId", args.stripeSubscriptionItemId!),
+        )
+        .unique();
+
+      if (item) {
+        await ctx.db.patch(item._id, { quantity: args.quantity });
+      }
+    }
+
     return null;
   },
 });
@@ -35,6 +344,10 @@ export const handleCustomerCreated = mutation({
     email: v.optional(v.string()),
     name: v.optional(v.string()),
     metadata: v.optional(v.any()),
+    defaultPaymentMethodId: v.optional(v.string()),
+    eventCreated: v.optional(v.number()),
+    stripeAccountId: v.optional(v.string()),
+    livemode: v.optional(v.boolean()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -51,6 +364,10 @@ export const handleCustomerCreated = mutation({
         email: args.email,
         name: args.name,
         metadata: args.metadata || {},
+        defaultPaymentMethodId: args.defaultPaymentMethodId,
+        lastEventCreated: args.eventCreated,
+        stripeAccountId: args.stripeAccountId,
+        livemode: args.livemode,
       });
     }
 
@@ -64,6 +381,10 @@ export const handleCustomerUpdated = mutation({
     email: v.optional(v.string()),
     name: v.optional(v.string()),
     metadata: v.optional(v.any()),
+    defaultPaymentMethodId: v.optional(v.string()),
+    eventCreated: v.optional(v.number()),
+    stripeAccountId: v.optional(v.string()),
+    livemode: v.optional(v.boolean()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -74,11 +395,19 @@ export const handleCustomerUpdated = mutation({
       )
       .unique();
 
-    if (customer) {
+    if (customer && !isStaleEvent(customer, args.eventCreated)) {
       await ctx.db.patch(customer._id, {
         email: args.email,
         name: args.name,
         metadata: args.metadata,
+        defaultPaymentMethodId: args.defaultPaymentMethodId,
+        ...(args.eventCreated !== undefined && {
+          lastEventCreated: args.eventCreated,
+        }),
+        ...(args.stripeAccountId !== undefined && {
+          stripeAccountId: args.stripeAccountId,
+        }),
+        ...(args.livemode !== undefined && { livemode: args.livemode }),
       });
     }
 
@@ -86,17 +415,145 @@ export const handleCustomerUpdated = mutation({
   },
 });
 
-export const handleSubscriptionCreated = mutation({
+export const handleCustomerDeleted = mutation({
   args: {
-    stripeSubscriptionId: v.string(),
     stripeCustomerId: v.string(),
-    status: v.string(),
-    currentPeriodEnd: v.number(),
-    cancelAtPeriodEnd: v.boolean(),
-    quantity: v.optional(v.number()),
-    priceId: v.string(),
-    metadata: v.optional(v.any()),
+    eventCreated: v.optional(v.number()),
+    stripeAccountId: v.optional(v.string()),
+    livemode: v.optional(v.boolean()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const customer = await ctx.db
+      .query("customers")
+      .withIndex("by_stripe_customer_id", (q) =>
+        q.eq("stripeCustomerId", args.stripeCustomerId),
+      )
+      .unique();
+
+    await markTombstoned(
+      ctx,
+      "customers",
+      customer,
+      args.eventCreated,
+      { deleted: true },
+      {
+        stripeCustomerId: args.stripeCustomerId,
+        metadata: {},
+        stripeAccountId: args.stripeAccountId,
+        livemode: args.livemode,
+      },
+    );
+
+    return null;
+  },
+});
+
+/**
+ * Whether a customer has been deleted in Stripe.
+ */
+export const isCustomerDeleted = query({
+  args: { stripeCustomerId: v.string() },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const customer = await ctx.db
+      .query("customers")
+      .withIndex("by_stripe_customer_id", (q) =>
+        q.eq("stripeCustomerId", args.stripeCustomerId),
+      )
+      .unique();
+    return customer?.deleted === true;
   },
+});
+
+const subscriptionFields = {
+  stripeSubscriptionId: v.string(),
+  stripeCustomerId: v.string(),
+  status: v.string(),
+  currentPeriodEnd: v.number(),
+  cancelAtPeriodEnd: v.boolean(),
+  ...subscriptionLifecycleFields,
+  quantity: v.optional(v.number()),
+  priceId: v.string(),
+  // Complete list of items. Stored items are left alone when unset.
+  items: v.optional(v.array(subscriptionItemValidator)),
+  // Complete list of discounts. Stored discounts are left alone when unset.
+  discounts: v.optional(v.array(appliedDiscountValidator)),
+  metadata: v.optional(v.any()),
+  eventCreated: v.optional(v.number()),
+  stripeAccountId: v.optional(v.string()),
+  livemode: v.optional(v.boolean()),
+};
+
+/**
+ * Insert a subscription, taking orgId/userId from its metadata, and link
+ * invoices that arrived before it to the same user and org.
+ */
+async function insertSubscription(
+  ctx: MutationCtx,
+  args: ObjectType<typeof subscriptionFields>,
+) {
+  // Extract orgId and userId from metadata if present
+  const metadata = args.metadata || {};
+  const orgId = metadata.orgId as string | undefined;
+  const userId = metadata.userId as string | undefined;
+
+  const subscriptionId = await ctx.db.insert("subscriptions", {
+    stripeSubscriptionId: args.stripeSubscriptionId,
+    stripeCustomerId: args.stripeCustomerId,
+    status: args.status,
+    currentPeriodEnd: args.currentPeriodEnd,
+    cancelAtPeriodEnd: args.cancelAtPeriodEnd,
+    currentPeriodStart: args.currentPeriodStart,
+    trialStart: args.trialStart,
+    trialEnd: args.trialEnd,
+    cancelAt: args.cancelAt,
+    canceledAt: args.canceledAt,
+    endedAt: args.endedAt,
+    pauseCollection: args.pauseCollection,
+    collectionMethod: args.collectionMethod,
+    quantity: args.quantity,
+    priceId: args.priceId,
+    discounts: args.discounts && (await resolveDiscounts(ctx, args.discounts)),
+    metadata: metadata,
+    orgId: orgId,
+    userId: userId,
+    lastEventCreated: args.eventCreated,
+    stripeAccountId: args.stripeAccountId,
+    livemode: args.livemode,
+  });
+
+  if (args.items) {
+    await syncSubscriptionItems(
+      ctx,
+      (await ctx.db.get(subscriptionId))!,
+      args.items,
+    );
+  }
+
+  // Backfill any invoices that were created before this subscription
+  // (fixes webhook timing issues where invoice arrives before subscription)
+  if (orgId || userId) {
+    const invoices = await ctx.db
+      .query("invoices")
+      .withIndex("by_stripe_subscription_id", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId),
+      )
+      .collect();
+
+    for (const invoice of invoices) {
+      if (!invoice.orgId || !invoice.userId) {
+        await ctx.db.patch(invoice._id, {
+          ...(orgId && !invoice.orgId && { orgId }),
+          ...(userId && !invoice.userId && { userId }),
+        });
+      }
+    }
+  }
+}
+
+export const handleSubscriptionCreated = mutation({
+  args: subscriptionFields,
   returns: v.null(),
   handler: async (ctx, args) => {
     const existing = await ctx.db
@@ -106,58 +563,26 @@ export const handleSubscriptionCreated = mutation({
       )
       .unique();
 
-    // Extract orgId and userId from metadata if present
-    const metadata = args.metadata || {};
-    const orgId = metadata.orgId as string | undefined;
-    const userId = metadata.userId as string | undefined;
-
+    // A subscription stored from an earlier-processed update is newer than
+    // its created snapshot
     if (!existing) {
-      await ctx.db.insert("subscriptions", {
-        stripeSubscriptionId: args.stripeSubscriptionId,
-        stripeCustomerId: args.stripeCustomerId,
-        status: args.status,
-        currentPeriodEnd: args.currentPeriodEnd,
-        cancelAtPeriodEnd: args.cancelAtPeriodEnd,
-        quantity: args.quantity,
-        priceId: args.priceId,
-        metadata: metadata,
-        orgId: orgId,
-        userId: userId,
-      });
-    }
-
-    // Backfill any invoices that were created before this subscription
-    // (fixes webhook timing issues where invoice arrives before subscription)
-    if (orgId || userId) {
-      const invoices = await ctx.db
-        .query("invoices")
-        .withIndex("by_stripe_subscription_id", (q) =>
-          q.eq("stripeSubscriptionId", args.stripeSubscriptionId),
-        )
-        .collect();
-
-      for (const invoice of invoices) {
-        if (!invoice.orgId || !invoice.userId) {
-          await ctx.db.patch(invoice._id, {
-            ...(orgId && !invoice.orgId && { orgId }),
-            ...(userId && !invoice.userId && { userId }),
-          });
-        }
-      }
+      await insertSubscription(ctx, args);
     }
 
     return null;
   },
 });
 
+/**
+ * Apply the current state of a subscription. Inserts the subscription if
+ * its created event has not been processed yet and the customer is known.
+ */
 export const handleSubscriptionUpdated = mutation({
   args: {
-    stripeSubscriptionId: v.string(),
-    status: v.string(),
-    currentPeriodEnd: v.number(),
-    cancelAtPeriodEnd: v.boolean(),
-    quantity: v.optional(v.number()),
-    metadata: v.optional(v.any()),
+    ...subscriptionFields,
+    // Only needed to insert a subscription that is not stored yet
+    stripeCustomerId: v.optional(v.string()),
+    priceId: v.optional(v.string()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -168,7 +593,18 @@ export const handleSubscriptionUpdated = mutation({
       )
       .unique();
 
-    if (subscription) {
+    if (!subscription) {
+      if (args.stripeCustomerId) {
+        await insertSubscription(ctx, {
+          ...args,
+          stripeCustomerId: args.stripeCustomerId,
+          priceId: args.priceId ?? args.items?.[0]?.priceId ?? "",
+        });
+      }
+      return null;
+    }
+
+    if (!isStaleEvent(subscription, args.eventCreated)) {
       // Extract orgId and userId from metadata if present
       const metadata = args.metadata || {};
       const orgId = metadata.orgId as string | undefined;
@@ -178,12 +614,31 @@ export const handleSubscriptionUpdated = mutation({
         status: args.status,
         currentPeriodEnd: args.currentPeriodEnd,
         cancelAtPeriodEnd: args.cancelAtPeriodEnd,
+        currentPeriodStart: args.currentPeriodStart,
+        trialStart: args.trialStart,
+        trialEnd: args.trialEnd,
+        cancelAt: args.cancelAt,
+        canceledAt: args.canceledAt,
+        endedAt: args.endedAt,
+        pauseCollection: args.pauseCollection,
+        collectionMethod: args.collectionMethod,
         quantity: args.quantity,
+        ...(args.items?.[0] && { priceId: args.items[0].priceId }),
+        ...(args.discounts && {
+          discounts: await resolveDiscounts(ctx, args.discounts),
+        }),
         // Only update metadata fields if provided
         ...(args.metadata !== undefined && { metadata }),
         ...(orgId !== undefined && { orgId }),
         ...(userId !== undefined && { userId }),
+        ...(args.eventCreated !== undefined && {
+          lastEventCreated: args.eventCreated,
+        }),
       });
+
+      if (args.items) {
+        await syncSubscriptionItems(ctx, subscription, args.items);
+      }
     }
 
     return null;
@@ -193,6 +648,8 @@ export const handleSubscriptionUpdated = mutation({
 export const handleSubscriptionDeleted = mutation({
   args: {
     stripeSubscriptionId: v.string(),
+    endedAt: v.optional(v.number()),
+    eventCreated: v.optional(v.number()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -203,25 +660,46 @@ export const handleSubscriptionDeleted = mutation({
       )
       .unique();
 
-    if (subscription) {
-      await ctx.db.patch(subscription._id, {
+    await markTombstoned(
+      ctx,
+      "subscriptions",
+      subscription,
+      args.eventCreated,
+      {
         status: "canceled",
-      });
-    }
+        ...(args.endedAt !== undefined && { endedAt: args.endedAt }),
+      },
+    );
 
     return null;
   },
 });
 
-export const handleCheckoutSessionCompleted = mutation({
+/**
+ * Store the current state of a checkout session, from the client when it is
+ * created or from its webhook events. orgId/userId are kept when unset.
+ */
+export const handleCheckoutSessionUpserted = mutation({
   args: {
     stripeCheckoutSessionId: v.string(),
     stripeCustomerId: v.optional(v.string()),
+    status: v.string(),
+    paymentStatus: v.optional(v.string()),
     mode: v.string(),
+    amountTotal: v.optional(v.number()),
+    currency: v.optional(v.string()),
+    url: v.optional(v.string()),
+    expiresAt: v.optional(v.number()),
     metadata: v.optional(v.any()),
+    orgId: v.optional(v.string()),
+    userId: v.optional(v.string()),
+    eventCreated: v.optional(v.number()),
+    stripeAccountId: v.optional(v.string()),
+    livemode: v.optional(v.boolean()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
+    const { eventCreated, ...fields } = args;
     const existing = await ctx.db
       .query("checkout_sessions")
       .withIndex("by_stripe_checkout_session_id", (q) =>
@@ -229,35 +707,85 @@ export const handleCheckoutSessionCompleted = mutation({
       )
       .unique();
 
-    if (existing) {
-      await ctx.db.patch(existing._id, {
-        status: "complete",
-        stripeCustomerId: args.stripeCustomerId,
-      });
-    } else {
-      await ctx.db.insert("checkout_sessions", {
-        stripeCheckoutSessionId: args.stripeCheckoutSessionId,
-        stripeCustomerId: args.stripeCustomerId,
-        status: "complete",
-        mode: args.mode,
-        metadata: args.metadata || {},
-      });
-    }
+    await upsertSyncedRow(ctx, "checkout_sessions", existing, eventCreated, {
+      ...fields,
+      metadata: args.metadata || existing?.metadata || {},
+      orgId: args.orgId ?? existing?.orgId,
+      userId: args.userId ?? existing?.userId,
+    });
 
     return null;
   },
 });
 
+const invoiceFields = {
+  stripeInvoiceId: v.string(),
+  stripeCustomerId: v.string(),
+  stripeSubscriptionId: v.optional(v.string()),
+  status: v.string(),
+  amountDue: v.number(),
+  amountPaid: v.number(),
+  created: v.number(),
+  number: v.optional(v.string()),
+  currency: v.optional(v.string()),
+  periodStart: v.optional(v.number()),
+  periodEnd: v.optional(v.number()),
+  dueDate: v.optional(v.number()),
+  hostedInvoiceUrl: v.optional(v.string()),
+  invoicePdf: v.optional(v.string()),
+  subtotal: v.optional(v.number()),
+  tax: v.optional(v.number()),
+  total: v.optional(v.number()),
+  // Complete list of line items. Stored lines are left alone when unset.
+  lines: v.optional(v.array(invoiceLineItemValidator)),
+  // Complete list of discounts. Stored discounts are left alone when unset.
+  discounts: v.optional(v.array(appliedDiscountValidator)),
+  eventCreated: v.optional(v.number()),
+  stripeAccountId: v.optional(v.string()),
+  livemode: v.optional(v.boolean()),
+};
+
+/**
+ * Insert an invoice, taking orgId/userId from its subscription if available.
+ */
+async function insertInvoice(
+  ctx: MutationCtx,
+  args: ObjectType<typeof invoiceFields>,
+) {
+  const { lines, discounts, eventCreated, ...fields } = args;
+
+  let orgId: string | undefined;
+  let userId: string | undefined;
+
+  if (args.stripeSubscriptionId) {
+    const subscription = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_stripe_subscription_id", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId!),
+      )
+      .unique();
+
+    if (subscription) {
+      orgId = subscription.orgId;
+      userId = subscription.userId;
+    }
+  }
+
+  const invoiceId = await ctx.db.insert("invoices", {
+    ...fields,
+    discounts: discounts && (await resolveDiscounts(ctx, discounts)),
+    orgId,
+    userId,
+    lastEventCreated: eventCreated,
+  });
+
+  if (lines) {
+    await syncInvoiceLineItems(ctx, (await ctx.db.get(invoiceId))!, lines);
+  }
+}
+
 export const handleInvoiceCreated = mutation({
-  args: {
-    stripeInvoiceId: v.string(),
-    stripeCustomerId: v.string(),
-    stripeSubscriptionId: v.optional(v.string()),
-    status: v.string(),
-    amountDue: v.number(),
-    amountPaid: v.number(),
-    created: v.number(),
-  },
+  args: invoiceFields,
   returns: v.null(),
   handler: async (ctx, args) => {
     const existing = await ctx.db
@@ -268,35 +796,52 @@ export const handleInvoiceCreated = mutation({
       .unique();
 
     if (!existing) {
-      // Look up orgId/userId from the subscription if available
-      let orgId: string | undefined;
-      let userId: string | undefined;
+      await insertInvoice(ctx, args);
+    }
 
-      if (args.stripeSubscriptionId) {
-        const subscription = await ctx.db
-          .query("subscriptions")
-          .withIndex("by_stripe_subscription_id", (q) =>
-            q.eq("stripeSubscriptionId", args.stripeSubscriptionId!),
-          )
-          .unique();
+    return null;
+  },
+});
 
-        if (subscription) {
-          orgId = subscription.orgId;
-          userId = subscription.userId;
-        }
-      }
+/**
+ * Apply the current state of an invoice, e.g. once it is finalized, voided
+ * or marked uncollectible. Inserts the invoice if it is not stored yet.
+ */
+export const handleInvoiceUpdated = mutation({
+  args: invoiceFields,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const invoice = await ctx.db
+      .query("invoices")
+      .withIndex("by_stripe_invoice_id", (q) =>
+        q.eq("stripeInvoiceId", args.stripeInvoiceId),
+      )
+      .unique();
 
-      await ctx.db.insert("invoices", {
-        stripeInvoiceId: args.stripeInvoiceId,
-        stripeCustomerId: args.stripeCustomerId,
-        stripeSubscriptionId: args.stripeSubscriptionId,
-        status: args.status,
-        amountDue: args.amountDue,
-        amountPaid: args.amountPaid,
-        created: args.created,
-        orgId,
-        userId,
+    if (!invoice) {
+      await insertInvoice(ctx, args);
+      return null;
+    }
+
+    if (!isStaleEvent(invoice, args.eventCreated)) {
+      // Replace so fields Stripe has cleared are removed here too
+      const { lines, discounts, eventCreated, ...fields } = args;
+      await ctx.db.replace(invoice._id, {
+        ...fields,
+        // Some payloads omit the subscription; keep the one already linked
+        stripeSubscriptionId:
+          fields.stripeSubscriptionId ?? invoice.stripeSubscriptionId,
+        discounts: discounts
+          ? await resolveDiscounts(ctx, discounts)
+          : invoice.discounts,
+        orgId: invoice.orgId,
+        userId: invoice.userId,
+        lastEventCreated: eventCreated ?? invoice.lastEventCreated,
       });
+
+      if (lines) {
+        await syncInvoiceLineItems(ctx, invoice, lines);
+      }
     }
 
     return null;
@@ -307,6 +852,7 @@ export const handleInvoicePaid = mutation({
   args: {
     stripeInvoiceId: v.string(),
     amountPaid: v.number(),
+    eventCreated: v.optional(v.number()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -317,10 +863,13 @@ export const handleInvoicePaid = mutation({
       )
       .unique();
 
-    if (invoice) {
+    if (invoice && !isStaleEvent(invoice, args.eventCreated)) {
       await ctx.db.patch(invoice._id, {
         status: "paid",
         amountPaid: args.amountPaid,
+        ...(args.eventCreated !== undefined && {
+          lastEventCreated: args.eventCreated,
+        }),
       });
     }
 
@@ -331,6 +880,7 @@ export const handleInvoicePaid = mutation({
 export const handleInvoicePaymentFailed = mutation({
   args: {
     stripeInvoiceId: v.string(),
+    eventCreated: v.optional(v.number()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -341,9 +891,12 @@ export const handleInvoicePaymentFailed = mutation({
       )
       .unique();
 
-    if (invoice) {
+    if (invoice && !isStaleEvent(invoice, args.eventCreated)) {
       await ctx.db.patch(invoice._id, {
         status: "open",
+        ...(args.eventCreated !== undefined && {
+          lastEventCreated: args.eventCreated,
+        }),
       });
     }
 
@@ -360,6 +913,8 @@ export const handlePaymentIntentSucceeded = mutation({
     status: v.string(),
     created: v.number(),
     metadata: v.optional(v.any()),
+    stripeAccountId: v.optional(v.string()),
+    livemode: v.optional(v.boolean()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -376,17 +931,48 @@ export const handlePaymentIntentSucceeded = mutation({
       const orgId = metadata.orgId as string | undefined;
       const userId = metadata.userId as string | undefined;
 
+      // Refunds and disputes can be synced before the payment they belong to
+      const refunds = await ctx.db
+        .query("refunds")
+        .withIndex("by_stripe_payment_intent_id", (q) =>
+          q.eq("stripePaymentIntentId", args.stripePaymentIntentId),
+        )
+        .collect();
+      const amountRefunded = refunds
+        .filter(({ status }) => !isVoidedRefund(status))
+        .reduce((total, refund) => total + refund.amount, 0);
+
       await ctx.db.insert("payments", {
         stripePaymentIntentId: args.stripePaymentIntentId,
         stripeCustomerId: args.stripeCustomerId,
         amount: args.amount,
         currency: args.currency,
-        status: args.status,
+        status:
+          amountRefunded > 0
+            ? getRefundedPaymentStatus(args.amount, amountRefunded)
+            : args.status,
+        ...(amountRefunded > 0 && { amountRefunded }),
         created: args.created,
         metadata: metadata,
         orgId: orgId,
         userId: userId,
+        stripeAccountId: args.stripeAccountId,
+        livemode: args.livemode,
       });
+
+      for (const refund of refunds) {
+        await ctx.db.patch(refund._id, { orgId, userId });
+      }
+
+      const disputes = await ctx.db
+        .query("disputes")
+        .withIndex("by_stripe_payment_intent_id", (q) =>
+          q.eq("stripePaymentIntentId", args.stripePaymentIntentId),
+        )
+        .collect();
+      for (const dispute of disputes) {
+        await ctx.db.patch(dispute._id, { orgId, userId });
+      }
     } else if (args.stripeCustomerId && !existing.stripeCustomerId) {
       // Update customer ID if it wasn't set initially (webhook timing issue)
       await ctx.db.patch(existing._id, {
@@ -421,3 +1007,1135 @@ export const updatePaymentCustomer = mutation({
     return null;
   },
 });
+
+export const handleChargeRefunded = mutation({
+  args: {
+    stripePaymentIntentId: v.string(),
+    amountRefunded: v.number(),
+    eventCreated: v.optional(v.number()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const payment = await ctx.db
+      .query("payments")
+      .withIndex("by_stripe_payment_intent_id", (q) =>
+        q.eq("stripePaymentIntentId", args.stripePaymentIntentId),
+      )
+      .unique();
+    if (!payment || isStaleEvent(payment, args.eventCreated)) {
+      return null;
+    }
+
+    // The charge's total already leaves out failed and canceled refunds.
+    // Without a timestamp to order it by, it is only trusted to grow.
+    if (
+      args.eventCreated !== undefined ||
+      args.amountRefunded > (payment.amountRefunded ?? 0)
+    ) {
+      await ctx.db.patch(payment._id, {
+        amountRefunded: args.amountRefunded,
+        status: getRefundedPaymentStatus(payment.amount, args.amountRefunded),
+        lastEventCreated: args.eventCreated ?? payment.lastEventCreated,
+      });
+    }
+
+    return null;
+  },
+});
+
+export const handleRefundUpserted = mutation({
+  args: {
+    stripeRefundId: v.string(),
+    stripePaymentIntentId: v.optional(v.string()),
+    stripeChargeId: v.optional(v.string()),
+    amount: v.number(),
+    currency: v.string(),
+    status: v.string(),
+    reason: v.optional(v.string()),
+    created: v.number(),
+    metadata: v.optional(v.any()),
+    eventCreated: v.optional(v.number()),
+    stripeAccountId: v.optional(v.string()),
+    livemode: v.optional(v.boolean()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { eventCreated, ...fields } = args;
+    const existing = await ctx.db
+      .query("refunds")
+      .withIndex("by_stripe_refund_id", (q) =>
+        q.eq("stripeRefundId", args.stripeRefundId),
+      )
+      .unique();
+
+    const payment = args.stripePaymentIntentId
+      ? await ctx.db
+          .query("payments")
+          .withIndex("by_stripe_payment_intent_id", (q) =>
+            q.eq("stripePaymentIntentId", args.stripePaymentIntentId!),
+          )
+          .unique()
+      : null;
+    const written = await upsertSyncedRow(
+      ctx,
+      "refunds",
+      existing,
+      eventCreated,
+      {
+        ...fields,
+        metadata: args.metadata || {},
+        orgId: payment?.orgId,
+        userId: payment?.userId,
+      },
+    );
+    if (!written) {
+      return null;
+    }
+
+    // A refund that fails or is canceled gives the amount back to the
+    // payment, unless a newer charge.refunded total already left it out.
+    // The payment is stamped even when nothing was counted yet, so an older
+    // total that still includes the refund is ignored when it arrives.
+    const wasVoided = existing && isVoidedRefund(existing.status);
+    if (
+      payment &&
+      !wasVoided &&
+      isVoidedRefund(args.status) &&
+      !isStaleEvent(payment, eventCreated)
+    ) {
+      const amountRefunded =
+        payment.amountRefunded !== undefined
+          ? Math.max(payment.amountRefunded - args.amount, 0)
+          : undefined;
+      await ctx.db.patch(payment._id, {
+        ...(amountRefunded !== undefined && {
+          amountRefunded,
+          status: getRefundedPaymentStatus(payment.amount, amountRefunded),
+        }),
+        lastEventCreated: eventCreated ?? payment.lastEventCreated,
+      });
+    }
+
+    return null;
+  },
+});
+
+export const handleDisputeUpserted = mutation({
+  args: {
+    stripeDisputeId: v.string(),
+    stripeChargeId: v.string(),
+    stripePaymentIntentId: v.optional(v.string()),
+    amount: v.number(),
+    currency: v.string(),
+    reason: v.string(),
+    status: v.string(),
+    evidenceDueBy: v.optional(v.number()),
+    created: v.number(),
+    metadata: v.optional(v.any()),
+    eventCreated: v.optional(v.number()),
+    stripeAccountId: v.optional(v.string()),
+    livemode: v.optional(v.boolean()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { eventCreated, ...fields } = args;
+    const existing = await ctx.db
+      .query("disputes")
+      .withIndex("by_stripe_dispute_id", (q) =>
+        q.eq("stripeDisputeId", args.stripeDisputeId),
+      )
+      .unique();
+
+    const payment = args.stripePaymentIntentId
+      ? await ctx.db
+          .query("payments")
+          .withIndex("by_stripe_payment_intent_id", (q) =>
+            q.eq("stripePaymentIntentId", args.stripePaymentIntentId!),
+          )
+          .unique()
+      : null;
+    await upsertSyncedRow(ctx, "disputes", existing, eventCreated, {
+      ...fields,
+      metadata: args.metadata || {},
+      orgId: payment?.orgId,
+      userId: payment?.userId,
+    });
+
+    return null;
+  },
+});
+
+export const handlePaymentMethodUpserted = mutation({
+  args: {
+    stripePaymentMethodId: v.string(),
+    stripeCustomerId: v.string(),
+    type: v.string(),
+    brand: v.optional(v.string()),
+    last4: v.optional(v.string()),
+    expMonth: v.optional(v.number()),
+    expYear: v.optional(v.number()),
+    metadata: v.optional(v.any()),
+    eventCreated: v.optional(v.number()),
+    stripeAccountId: v.optional(v.string()),
+    livemode: v.optional(v.boolean()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { eventCreated, ...fields } = args;
+    const existing = await ctx.db
+      .query("payment_methods")
+      .withIndex("by_stripe_payment_method_id", (q) =>
+        q.eq("stripePaymentMethodId", args.stripePaymentMethodId),
+      )
+      .unique();
+
+    await upsertSyncedRow(ctx, "payment_methods", existing, eventCreated, {
+      ...fields,
+      metadata: args.metadata || {},
+    });
+
+    return null;
+  },
+});
+
+export const handlePaymentMethodDetached = mutation({
+  args: {
+    stripePaymentMethodId: v.string(),
+    // Customer the method was detached from, if known
+    stripeCustomerId: v.optional(v.string()),
+    type: v.string(),
+    brand: v.optional(v.string()),
+    last4: v.optional(v.string()),
+    expMonth: v.optional(v.number()),
+    expYear: v.optional(v.number()),
+    metadata: v.optional(v.any()),
+    eventCreated: v.optional(v.number()),
+    stripeAccountId: v.optional(v.string()),
+    livemode: v.optional(v.boolean()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { eventCreated, stripeCustomerId, ...fields } = args;
+    const paymentMethod = await ctx.db
+      .query("payment_methods")
+      .withIndex("by_stripe_payment_method_id", (q) =>
+        q.eq("stripePaymentMethodId", args.stripePaymentMethodId),
+      )
+      .unique();
+
+    // Without the customer, an unknown method can't be recorded
+    await markTombstoned(
+      ctx,
+      "payment_methods",
+      paymentMethod,
+      eventCreated,
+      { detached: true },
+      stripeCustomerId
+        ? { ...fields, stripeCustomerId, metadata: args.metadata || {} }
+        : undefined,
+    );
+
+    return null;
+  },
+});
+
+const couponFields = {
+  stripeCouponId: v.string(),
+  name: v.optional(v.string()),
+  percentOff: v.optional(v.number()),
+  amountOff: v.optional(v.number()),
+  currency: v.optional(v.string()),
+  duration: v.string(),
+  durationInMonths: v.optional(v.number()),
+  maxRedemptions: v.optional(v.number()),
+  timesRedeemed: v.number(),
+  redeemBy: v.optional(v.number()),
+  valid: v.boolean(),
+  metadata: v.optional(v.any()),
+  eventCreated: v.optional(v.number()),
+  stripeAccountId: v.optional(v.string()),
+  livemode: v.optional(v.boolean()),
+};
+
+export const handleCouponUpserted = mutation({
+  args: couponFields,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { eventCreated, ...fields } = args;
+    const existing = await ctx.db
+      .query("coupons")
+      .withIndex("by_stripe_coupon_id", (q) =>
+        q.eq("stripeCouponId", args.stripeCouponId),
+      )
+      .unique();
+
+    await upsertSyncedRow(ctx, "coupons", existing, eventCreated, {
+      ...fields,
+      metadata: args.metadata || {},
+    });
+
+    return null;
+  },
+});
+
+export const handleCouponDeleted = mutation({
+  args: couponFields,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { eventCreated, ...fields } = args;
+    const coupon = await ctx.db
+      .query("coupons")
+      .withIndex("by_stripe_coupon_id", (q) =>
+        q.eq("stripeCouponId", args.stripeCouponId),
+      )
+      .unique();
+
+    await markTombstoned(
+      ctx,
+      "coupons",
+      coupon,
+      eventCreated,
+      { deleted: true },
+      { ...fields, metadata: args.metadata || {} },
+    );
+
+    return null;
+  },
+});
+
+export const handlePromotionCodeUpserted = mutation({
+  args: {
+    stripePromotionCodeId: v.string(),
+    code: v.string(),
+    stripeCouponId: v.string(),
+    active: v.boolean(),
+    stripeCustomerId: v.optional(v.string()),
+    maxRedemptions: v.optional(v.number()),
+    timesRedeemed: v.number(),
+    expiresAt: v.optional(v.number()),
+    metadata: v.optional(v.any()),
+    eventCreated: v.optional(v.number()),
+    stripeAccountId: v.optional(v.string()),
+    livemode: v.optional(v.boolean()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { eventCreated, ...fields } = args;
+    const existing = await ctx.db
+      .query("promotion_codes")
+      .withIndex("by_stripe_promotion_code_id", (q) =>
+        q.eq("stripePromotionCodeId", args.stripePromotionCodeId),
+      )
+      .unique();
+
+    await upsertSyncedRow(ctx, "promotion_codes", existing, eventCreated, {
+      ...fields,
+      metadata: args.metadata || {},
+    });
+
+    return null;
+  },
+});
+
+export const handleDiscountUpserted = mutation({
+  args: {
+    stripeDiscountId: v.string(),
+    stripeCouponId: v.string(),
+    stripePromotionCodeId: v.optional(v.string()),
+    stripeCustomerId: v.optional(v.string()),
+    stripeSubscriptionId: v.optional(v.string()),
+    stripeInvoiceId: v.optional(v.string()),
+    percentOff: v.optional(v.number()),
+    amountOff: v.optional(v.number()),
+    currency: v.optional(v.string()),
+    start: v.number(),
+    end: v.optional(v.number()),
+    removedAt: v.optional(v.number()),
+    eventCreated: v.optional(v.number()),
+    stripeAccountId: v.optional(v.string()),
+    livemode: v.optional(v.boolean()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { eventCreated, ...fields } = args;
+    const existing = await ctx.db
+      .query("discounts")
+      .withIndex("by_stripe_discount_id", (q) =>
+        q.eq("stripeDiscountId", args.stripeDiscountId),
+      )
+      .unique();
+
+    // Coupon details are in the event when the coupon is expanded, and
+    // otherwise come from the synced coupon
+    const coupon =
+      args.percentOff === undefined && args.amountOff === undefined
+        ? await ctx.db
+            .query("coupons")
+            .withIndex("by_stripe_coupon_id", (q) =>
+              q.eq("stripeCouponId", args.stripeCouponId),
+            )
+            .unique()
+        : null;
+    const discount = {
+      ...fields,
+      percentOff: args.percentOff ?? coupon?.percentOff,
+      amountOff: args.amountOff ?? coupon?.amountOff,
+      currency: args.currency ?? coupon?.currency,
+    };
+    const written = await upsertSyncedRow(
+      ctx,
+      "discounts",
+      existing,
+      eventCreated,
+      discount,
+    );
+    if (!written) {
+      return null;
+    }
+
+    // Fill in the details where the discount was recorded by ID only
+    const applied = {
+      stripeDiscountId: discount.stripeDiscountId,
+      stripeCouponId: discount.stripeCouponId,
+      stripePromotionCodeId: discount.stripePromotionCodeId,
+      percentOff: discount.percentOff,
+      amountOff: discount.amountOff,
+      currency: discount.currency,
+      end: discount.end,
+    };
+    const subscription = args.stripeSubscriptionId
+      ? await ctx.db
+          .query("subscriptions")
+          .withIndex("by_stripe_subscription_id", (q) =>
+            q.eq("stripeSubscriptionId", args.stripeSubscriptionId!),
+          )
+          .unique()
+      : null;
+    const invoice = args.stripeInvoiceId
+      ? await ctx.db
+          .query("invoices")
+          .withIndex("by_stripe_invoice_id", (q) =>
+            q.eq("stripeInvoiceId", args.stripeInvoiceId!),
+          )
+          .unique()
+      : null;
+    for (const row of [subscription, invoice]) {
+      if (
+        row?.discounts?.some(
+          (d) => d.stripeDiscountId === args.stripeDiscountId,
+        )
+      ) {
+        await ctx.db.patch(row._id, {
+          discounts: row.discounts.map((d) =>
+            d.stripeDiscountId === args.stripeDiscountId ? applied : d,
+          ),
+        });
+      }
+    }
+
+    return null;
+  },
+});
+
+const productFields = {
+  stripeProductId: v.string(),
+  name: v.string(),
+  description: v.optional(v.string()),
+  active: v.boolean(),
+  defaultPriceId: v.optional(v.string()),
+  metadata: v.optional(v.any()),
+  eventCreated: v.optional(v.number()),
+  stripeAccountId: v.optional(v.string()),
+  livemode: v.optional(v.boolean()),
+};
+
+export const handleProductUpserted = mutation({
+  args: productFields,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { eventCreated, ...fields } = args;
+    const existing = await ctx.db
+      .query("products")
+      .withIndex("by_stripe_product_id", (q) =>
+        q.eq("stripeProductId", args.stripeProductId),
+      )
+      .unique();
+
+    await upsertSyncedRow(ctx, "products", existing, eventCreated, {
+      ...fields,
+      metadata: args.metadata || {},
+    });
+
+    return null;
+  },
+});
+
+export const handleProductDeleted = mutation({
+  args: productFields,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { eventCreated, ...fields } = args;
+    const product = await ctx.db
+      .query("products")
+      .withIndex("by_stripe_product_id", (q) =>
+        q.eq("stripeProductId", args.stripeProductId),
+      )
+      .unique();
+
+    await markTombstoned(
+      ctx,
+      "products",
+      product,
+      eventCreated,
+      { deleted: true },
+      { ...fields, metadata: args.metadata || {} },
+    );
+
+    return null;
+  },
+});
+
+const priceFields = {
+  stripePriceId: v.string(),
+  stripeProductId: v.string(),
+  active: v.boolean(),
+  currency: v.string(),
+  unitAmount: v.optional(v.number()),
+  type: v.string(),
+  recurringInterval: v.optional(v.string()),
+  recurringIntervalCount: v.optional(v.number()),
+  billingScheme: v.string(),
+  tiersMode: v.optional(v.string()),
+  tiers: v.optional(
+    v.array(
+      v.object({
+        upTo: v.union(v.number(), v.null()),
+        unitAmount: v.optional(v.number()),
+        flatAmount: v.optional(v.number()),
+      }),
+    ),
+  ),
+  lookupKey: v.optional(v.string()),
+  nickname: v.optional(v.string()),
+  metadata: v.optional(v.any()),
+  eventCreated: v.optional(v.number()),
+  stripeAccountId: v.optional(v.string()),
+  livemode: v.optional(v.boolean()),
+};
+
+export const handlePriceUpserted = mutation({
+  args: priceFields,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { eventCreated, ...fields } = args;
+    const existing = await ctx.db
+      .query("prices")
+      .withIndex("by_stripe_price_id", (q) =>
+        q.eq("stripePriceId", args.stripePriceId),
+      )
+      .unique();
+
+    await upsertSyncedRow(ctx, "prices", existing, eventCreated, {
+      ...fields,
+      // Tiers are only in the payload when expanded, so keep known ones
+      tiers: args.tiers ?? existing?.tiers,
+      metadata: args.metadata || {},
+    });
+
+    return null;
+  },
+});
+
+export const handlePriceDeleted = mutation({
+  args: priceFields,
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { eventCreated, ...fields } = args;
+    const price = await ctx.db
+      .query("prices")
+      .withIndex("by_stripe_price_id", (q) =>
+        q.eq("stripePriceId", args.stripePriceId),
+      )
+      .unique();
+
+    await markTombstoned(
+      ctx,
+      "prices",
+      price,
+      eventCreated,
+      { deleted: true },
+      { ...fields, metadata: args.metadata || {} },
+    );
+
+    return null;
+  },
+});
+
+// ============================================================================
+// WEBHOOK EVENT LEDGER
+// ============================================================================
+
+/**
+ * How long (in milliseconds) an event may stay in "processing" before it is
+ * considered abandoned. Actions time out well before this, so a row older
+ * than this belongs to an attempt that died without recording its outcome.
+ */
+const WEBHOOK_PROCESSING_TIMEOUT_MS = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * Number of times default processing is attempted before an event is
+ * marked as failed.
+ */
+const MAX_WEBHOOK_ATTEMPTS = 8;
+
+/**
+ * Delay before the first retry. Each further retry doubles it
+ * (10s, 20s, 40s, ... roughly 21 minutes in total).
+ */
+const INITIAL_WEBHOOK_BACKOFF_MS = 10 * 1000; // 10 seconds
+
+/**
+ * Size of the time buckets webhook metrics are counted in.
+ */
+const WEBHOOK_STATS_BUCKET_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * How long metric buckets are kept. Covers the longest reported window.
+ */
+const WEBHOOK_STATS_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Number of documents each metric bucket is split across. Every webhook
+ * counts into the current bucket, so a single document would make concurrent
+ * webhooks conflict.
+ */
+const WEBHOOK_STATS_SHARDS = 8;
+
+/**
+ * Add one to a webhook metric in a random shard of the current time bucket.
+ * Starting a new shard also clears out a few expired ones.
+ */
+async function incrementWebhookStat(
+  ctx: MutationCtx,
+  stat: "received" | "processed" | "failed",
+) {
+  const now = Date.now();
+  const bucketStart = now - (now % WEBHOOK_STATS_BUCKET_MS);
+  const shard = Math.floor(Math.random() * WEBHOOK_STATS_SHARDS);
+  const bucket = await ctx.db
+    .query("webhook_stats")
+    .withIndex("by_bucket_start_and_shard", (q) =>
+      q.eq("bucketStart", bucketStart).eq("shard", shard),
+    )
+    .unique();
+
+  if (bucket) {
+    await ctx.db.patch(bucket._id, { [stat]: bucket[stat] + 1 });
+    return;
+  }
+
+  await ctx.db.insert("webhook_stats", {
+    bucketStart,
+    shard,
+    received: 0,
+    processed: 0,
+    failed: 0,
+    [stat]: 1,
+  });
+
+  const expired = await ctx.db
+    .query("webhook_stats")
+    .withIndex("by_bucket_start_and_shard", (q) =>
+      q.lt("bucketStart", now - WEBHOOK_STATS_RETENTION_MS),
+    )
+    .take(10);
+  for (const old of expired) {
+    await ctx.db.delete(old._id);
+  }
+}
+
+/**
+ * Reset a webhook event to "pending" and schedule its default processing
+ * from the first attempt again.
+ */
+export async function requeueWebhookEvent(
+  ctx: MutationCtx,
+  event: Doc<"webhook_events">,
+  apiKey: string | undefined,
+) {
+  await ctx.db.patch(event._id, {
+    status: "pending",
+    attempts: 0,
+  });
+  await ctx.scheduler.runAfter(0, api.webhooks.processWebhookEvent, {
+    stripeEventId: event.stripeEventId,
+    apiKey,
+  });
+}
+
+/**
+ * Whether an event stuck in "processing" was abandoned by an attempt that
+ * died without recording its outcome.
+ */
+function isAbandonedWebhookEvent(event: Doc<"webhook_events">, now: number) {
+  return (
+    event.status === "processing" &&
+    event.lastAttemptAt !== undefined &&
+    now - event.lastAttemptAt > WEBHOOK_PROCESSING_TIMEOUT_MS
+  );
+}
+
+/**
+ * Whether default processing of a recorded event can be replayed: it is
+ * not queued, and not being processed unless that attempt was abandoned.
+ * "skipped" events had default syncing turned off or replaced by the app,
+ * so replaying them would run the sync it disabled.
+ */
+export function isReplayableWebhookEvent(event: Doc<"webhook_events">) {
+  return (
+    event.status !== "pending" &&
+    event.status !== "skipped" &&
+    (event.status !== "processing" ||
+      isAbandonedWebhookEvent(event, Date.now()))
+  );
+}
+
+/**
+ * Up to `limit` events that failed after all retries or were abandoned
+ * mid-attempt, in the order they were first received.
+ */
+export async function getFailedWebhookEvents(ctx: QueryCtx, limit: number) {
+  const cutoff = Date.now() - WEBHOOK_PROCESSING_TIMEOUT_MS;
+  const failed = await ctx.db
+    .query("webhook_events")
+    .withIndex("by_status", (q) => q.eq("status", "failed"))
+    .take(limit);
+  const abandoned = await ctx.db
+    .query("webhook_events")
+    .withIndex("by_status", (q) => q.eq("status", "processing"))
+    .filter((q) =>
+      q.and(
+        q.neq(q.field("lastAttemptAt"), undefined),
+        q.lt(q.field("lastAttemptAt"), cutoff),
+      ),
+    )
+    .take(limit);
+  return [...failed, ...abandoned]
+    .sort((a, b) => a._creationTime - b._creationTime)
+    .slice(0, limit);
+}
+
+/**
+ * Pull the fields the audit log is filtered by out of a raw event body.
+ * Snapshot events carry the object itself; thin events a reference to it.
+ */
+function getWebhookEventSummary(payload: string): {
+  objectId?: string;
+  livemode?: boolean;
+} {
+  const event = JSON.parse(payload);
+  const objectId = event.data?.object?.id ?? event.related_object?.id;
+  return {
+    objectId: typeof objectId === "string" ? objectId : undefined,
+    livemode: typeof event.livemode === "boolean" ? event.livemode : undefined,
+  };
+}
+
+/**
+ * Payload recorded for a webhook event, or null if the event was not received
+ * before.
+ */
+export const getWebhookEventPayload = query({
+  args: {
+    stripeEventId: v.string(),
+  },
+  returns: v.union(v.string(), v.null()),
+  handler: async (ctx, args) => {
+    const event = await ctx.db
+      .query("webhook_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", args.stripeEventId),
+      )
+      .unique();
+    return event?.payload ?? null;
+  },
+});
+
+/**
+ * Record a received webhook event and schedule its default processing,
+ * along with a run for each scheduled handler. With `skipDefault`, the event
+ * is recorded as "skipped" and not synced.
+ * Without an API key, the event is synced from its payload alone.
+ * Returns the inline handlers the caller should run: all of `inlineHandlers`
+ * for a new event, or the ones that failed on a previous delivery. Duplicate
+ * deliveries return null.
+ */
+export const enqueueWebhookEvent = mutation({
+  args: {
+    stripeEventId: v.string(),
+    type: v.string(),
+    payload: v.string(),
+    apiKey: v.optional(v.string()),
+    refetch: v.optional(v.boolean()),
+    skipDefault: v.optional(v.boolean()),
+    handlers: v.optional(
+      v.array(
+        v.object({
+          handler: v.string(),
+          handle: v.string(),
+        }),
+      ),
+    ),
+    // Names of the handlers the caller runs inline
+    inlineHandlers: v.optional(v.array(v.string())),
+  },
+  returns: v.union(v.array(v.string()), v.null()),
+  handler: async (ctx, args): Promise<string[] | null> => {
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("webhook_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", args.stripeEventId),
+      )
+      .unique();
+
+    if (!existing) {
+      const { objectId, livemode } = getWebhookEventSummary(args.payload);
+      await ctx.db.insert("webhook_events", {
+        stripeEventId: args.stripeEventId,
+        type: args.type,
+        objectId,
+        livemode,
+        payload: args.payload,
+        status: args.skipDefault ? "skipped" : "pending",
+        attempts: 0,
+        receivedAt: now,
+        refetch: args.refetch,
+      });
+      await incrementWebhookStat(ctx, "received");
+
+      // Only the first event of a type writes here; the latest one is looked
+      // up in webhook_events
+      const knownType = await ctx.db
+        .query("webhook_event_types")
+        .withIndex("by_type", (q) => q.eq("type", args.type))
+        .unique();
+      if (!knownType) {
+        await ctx.db.insert("webhook_event_types", { type: args.type });
+      }
+
+      if (!args.skipDefault) {
+        await ctx.scheduler.runAfter(0, api.webhooks.processWebhookEvent, {
+          stripeEventId: args.stripeEventId,
+          apiKey: args.apiKey,
+        });
+      }
+
+      // Each scheduled handler runs and retries on its own
+      for (const { handler, handle } of args.handlers ?? []) {
+        const runId = await ctx.db.insert("webhook_handler_runs", {
+          stripeEventId: args.stripeEventId,
+          handler,
+          handle,
+          status: "pending",
+          attempts: 0,
+        });
+        await ctx.scheduler.runAfter(0, api.webhooks.runWebhookHandler, {
+          runId,
+        });
+      }
+      return args.inlineHandlers ?? [];
+    }
+
+    // Stripe re-sent an event we gave up on, so queue it again
+    if (
+      existing.status === "failed" ||
+      isAbandonedWebhookEvent(existing, now)
+    ) {
+      await requeueWebhookEvent(ctx, existing, args.apiKey);
+    }
+
+    // Only the handlers that failed run again; the caller records them anew
+    // if they fail once more
+    if (existing.failedHandlers?.length) {
+      await ctx.db.patch(existing._id, { failedHandlers: undefined });
+      return existing.failedHandlers;
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Mark a queued webhook event as processing and return its payload.
+ * Returns null if the event is not waiting to be processed.
+ */
+export const startWebhookEventAttempt = mutation({
+  args: {
+    stripeEventId: v.string(),
+  },
+  returns: v.union(
+    v.object({
+      payload: v.string(),
+      refetch: v.boolean(),
+    }),
+    v.null(),
+  ),
+  handler: async (ctx, args) => {
+    const event = await ctx.db
+      .query("webhook_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", args.stripeEventId),
+      )
+      .unique();
+
+    if (!event || event.status !== "pending") {
+      return null;
+    }
+
+    await ctx.db.patch(event._id, {
+      status: "processing",
+      attempts: event.attempts + 1,
+      lastAttemptAt: Date.now(),
+    });
+
+    return { payload: event.payload, refetch: event.refetch ?? false };
+  },
+});
+
+export const markWebhookEventProcessed = mutation({
+  args: {
+    stripeEventId: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const event = await ctx.db
+      .query("webhook_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", args.stripeEventId),
+      )
+      .unique();
+
+    if (event) {
+      await ctx.db.patch(event._id, {
+        status: "processed",
+        processedAt: Date.now(),
+        error: undefined,
+      });
+      await incrementWebhookStat(ctx, "processed");
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Record a failed processing attempt. Schedules a retry with exponential
+ * backoff, or marks the event as failed once it is out of attempts.
+ */
+export const recordWebhookEventFailure = mutation({
+  args: {
+    stripeEventId: v.string(),
+    error: v.string(),
+    apiKey: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    const event = await ctx.db
+      .query("webhook_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", args.stripeEventId),
+      )
+      .unique();
+
+    if (!event) {
+      return null;
+    }
+
+    if (event.attempts >= MAX_WEBHOOK_ATTEMPTS) {
+      await ctx.db.patch(event._id, { status: "failed", error: args.error });
+      await incrementWebhookStat(ctx, "failed");
+      return null;
+    }
+
+    await ctx.db.patch(event._id, { status: "pending", error: args.error });
+    await ctx.scheduler.runAfter(
+      INITIAL_WEBHOOK_BACKOFF_MS * 2 ** (event.attempts - 1),
+      api.webhooks.processWebhookEvent,
+      { stripeEventId: args.stripeEventId, apiKey: args.apiKey },
+    );
+
+    return null;
+  },
+});
+
+/**
+ * Record which inline handlers for a webhook event failed, so the next
+ * delivery of the event runs only those again.
+ */
+export const markWebhookHandlersFailed = mutation({
+  args: {
+    stripeEventId: v.string(),
+    handlers: v.array(v.string()),
+    error: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const event = await ctx.db
+      .query("webhook_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", args.stripeEventId),
+      )
+      .unique();
+
+    if (event) {
+      await ctx.db.patch(event._id, {
+        failedHandlers: args.handlers,
+        error: args.error,
+      });
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Mark a scheduled handler run as running and return what it needs.
+ * Returns null if the run is not waiting to be run.
+ */
+export const startWebhookHandlerRun = mutation({
+  args: {
+    runId: v.id("webhook_handler_runs"),
+  },
+  returns: v.union(
+    v.object({
+      handle: v.string(),
+      payload: v.string(),
+    }),
+    v.null(),
+  ),
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run || run.status !== "pending") {
+      return null;
+    }
+
+    const event = await ctx.db
+      .query("webhook_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", run.stripeEventId),
+      )
+      .unique();
+    if (!event) {
+      return null;
+    }
+
+    await ctx.db.patch(run._id, {
+      status: "running",
+      attempts: run.attempts + 1,
+      lastAttemptAt: Date.now(),
+    });
+
+    return { handle: run.handle, payload: event.payload };
+  },
+});
+
+export const markWebhookHandlerRunSucceeded = mutation({
+  args: {
+    runId: v.id("webhook_handler_runs"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.runId, {
+      status: "succeeded",
+      completedAt: Date.now(),
+      error: undefined,
+    });
+    return null;
+  },
+});
+
+/**
+ * Record a failed handler run. Schedules a retry with the same backoff as
+ * default processing, or marks the run as failed once it is out of attempts.
+ */
+export const recordWebhookHandlerRunFailure = mutation({
+  args: {
+    runId: v.id("webhook_handler_runs"),
+    error: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) {
+      return null;
+    }
+
+    if (run.attempts >= MAX_WEBHOOK_ATTEMPTS) {
+      await ctx.db.patch(run._id, {
+        status: "failed",
+        completedAt: Date.now(),
+        error: args.error,
+      });
+      return null;
+    }
+
+    await ctx.db.patch(run._id, { status: "pending", error: args.error });
+    await ctx.scheduler.runAfter(
+      INITIAL_WEBHOOK_BACKOFF_MS * 2 ** (run.attempts - 1),
+      api.webhooks.runWebhookHandler,
+      { runId: args.runId },
+    );
+
+    return null;
+  },
+});
+
+// ============================================================================
+// WEBHOOK ENDPOINTS
+// ============================================================================
+
+export const storeWebhookEndpoint = mutation({
+  args: {
+    stripeWebhookEndpointId: v.string(),
+    url: v.string(),
+    enabledEvents: v.array(v.string()),
+    secret: v.optional(v.string()),
+    livemode: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("webhook_endpoints")
+      .withIndex("by_stripe_webhook_endpoint_id", (q) =>
+        q.eq("stripeWebhookEndpointId", args.stripeWebhookEndpointId),
+      )
+      .unique();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        url: args.url,
+        enabledEvents: args.enabledEvents,
+        livemode: args.livemode,
+        // Stripe only returns the secret on creation, so keep the stored one
+        ...(args.secret !== undefined && { secret: args.secret }),
+      });
+    } else {
+      await ctx.db.insert("webhook_endpoints", args);
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Signing secrets of the webhook endpoints created through the component.
+ */
+export const getWebhookSigningSecrets = query({
+  args: {},
+  returns: v.array(v.string()),
+  handler: async (ctx) => {
+    const endpoints = await ctx.db.query("webhook_endpoints").collect();
+    return endpoints.flatMap(({ secret }) => (secret ? [secret] : []));
+  },
+});
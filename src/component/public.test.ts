@@ -1,8 +1,9 @@
+import { createFunctionHandle } from "convex/server";
 import { convexTest } from "convex-test";
-import { expect, test } from "vitest";
+import { expect, test, vi } from "vitest";
 import { api, internal } from "./_generated/api.js";
 import schema from "./schema.js";
-import { modules } from "./setup.test.js";
+import { initConvexTest, modules } from "./setup.test.js";
 
 test("customer creation and retrieval", async () => {
   const t = convexTest(schema, modules);
@@ -530,3 +531,2199 @@ test("handlePaymentIntentSucceeded updates existing payment with customer", asyn
   expect(payment?.stripeCustomerId).toBe("cus_idempotent");
 });
 
+// ============================================================================
+// WEBHOOK EVENT LEDGER TESTS
+// ============================================================================
+
+function stripeEvent(id: string, type: string, object: Record<string, any>) {
+  return JSON.stringify({
+    id,
+    object: "event",
+    type,
+    created: 1700000000,
+    livemode: false,
+    data: { object },
+  });
+}
+
+async function getWebhookEvent(
+  t: ReturnType<typeof initConvexTest>,
+  stripeEventId: string,
+) {
+  return await t.run(async (ctx) =>
+    ctx.db
+      .query("webhook_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", stripeEventId),
+      )
+      .unique(),
+  );
+}
+
+test("duplicate webhook deliveries are only queued once", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  const args = {
+    stripeEventId: "evt_dup",
+    type: "balance.available",
+    payload: stripeEvent("evt_dup", "balance.available", {}),
+    apiKey: "sk_test_123",
+    inlineHandlers: ["onEvent"],
+  };
+
+  // First delivery is queued and its handlers should run
+  expect(await t.mutation(api.private.enqueueWebhookEvent, args)).toEqual([
+    "onEvent",
+  ]);
+
+  // Stripe re-sends the same event
+  expect(await t.mutation(api.private.enqueueWebhookEvent, args)).toBeNull();
+
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const event = await getWebhookEvent(t, "evt_dup");
+  expect(event?.status).toBe("processed");
+  expect(event?.attempts).toBe(1);
+  vi.useRealTimers();
+});
+
+test("queued webhook event is synced by the scheduled processor", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_customer",
+    type: "customer.created",
+    payload: stripeEvent("evt_customer", "customer.created", {
+      id: "cus_scheduled",
+      email: "scheduled@example.com",
+      metadata: {},
+    }),
+    apiKey: "sk_test_123",
+  });
+
+  // Nothing is synced until the scheduled processor runs
+  expect(
+    await t.query(api.public.getCustomer, {
+      stripeCustomerId: "cus_scheduled",
+      includeTestData: true,
+    }),
+  ).toBeNull();
+
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const customer = await t.query(api.public.getCustomer, {
+    stripeCustomerId: "cus_scheduled",
+    includeTestData: true,
+  });
+  expect(customer?.email).toBe("scheduled@example.com");
+  vi.useRealTimers();
+});
+
+test("failing webhook event is retried and then marked as failed", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  // A subscription payload without items makes default processing throw
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_broken",
+    type: "customer.subscription.created",
+    payload: stripeEvent("evt_broken", "customer.subscription.created", {
+      id: "sub_broken",
+    }),
+    apiKey: "sk_test_123",
+  });
+
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const event = await getWebhookEvent(t, "evt_broken");
+  expect(event?.status).toBe("failed");
+  expect(event?.attempts).toBe(8);
+  vi.useRealTimers();
+});
+
+test("redelivered failed webhook event is queued again", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  const args = {
+    stripeEventId: "evt_requeue",
+    type: "balance.available",
+    payload: stripeEvent("evt_requeue", "balance.available", {}),
+    apiKey: "sk_test_123",
+  };
+
+  await t.mutation(api.private.enqueueWebhookEvent, args);
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+  await t.run(async (ctx) => {
+    const event = await ctx.db
+      .query("webhook_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", "evt_requeue"),
+      )
+      .unique();
+    await ctx.db.patch(event!._id, { status: "failed" });
+  });
+
+  // Handlers already succeeded, so only default processing is queued again
+  expect(await t.mutation(api.private.enqueueWebhookEvent, args)).toBeNull();
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const event = await getWebhookEvent(t, "evt_requeue");
+  expect(event?.status).toBe("processed");
+  vi.useRealTimers();
+});
+
+test("only the custom handlers that failed run again", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  const args = {
+    stripeEventId: "evt_handlers",
+    type: "balance.available",
+    payload: stripeEvent("evt_handlers", "balance.available", {}),
+    apiKey: "sk_test_123",
+    inlineHandlers: ["onEvent", "balance.available"],
+  };
+
+  await t.mutation(api.private.enqueueWebhookEvent, args);
+  await t.mutation(api.private.markWebhookHandlersFailed, {
+    stripeEventId: "evt_handlers",
+    handlers: ["onEvent"],
+    error: "onEvent: Handler exploded",
+  });
+
+  // Stripe retries because a handler failed
+  expect(await t.mutation(api.private.enqueueWebhookEvent, args)).toEqual([
+    "onEvent",
+  ]);
+
+  // Once it succeeds, further deliveries are duplicates
+  expect(await t.mutation(api.private.enqueueWebhookEvent, args)).toBeNull();
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+  vi.useRealTimers();
+});
+
+test("failed webhook events are listed with their error", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_dead",
+    type: "customer.subscription.created",
+    payload: stripeEvent("evt_dead", "customer.subscription.created", {
+      id: "sub_dead",
+    }),
+    apiKey: "sk_test_123",
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const failed = await t.query(api.public.listFailedWebhookEvents, {});
+
+  expect(failed).toHaveLength(1);
+  expect(failed[0].stripeEventId).toBe("evt_dead");
+  expect(failed[0].attempts).toBe(8);
+  expect(failed[0].error).toContain("Cannot read properties of undefined");
+  expect(failed[0].lastAttemptAt).toBeDefined();
+  vi.useRealTimers();
+});
+
+test("replaying a failed webhook event processes it again", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  const payload = stripeEvent("evt_replay", "customer.created", {
+    id: "cus_replay",
+    email: "replay@example.com",
+    metadata: {},
+  });
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_replay",
+    type: "customer.created",
+    payload,
+    apiKey: "sk_test_123",
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  // Simulate an earlier failure that has since been fixed
+  await t.run(async (ctx) => {
+    await ctx.db.delete((await ctx.db.query("customers").first())!._id);
+    const event = await ctx.db.query("webhook_events").first();
+    await ctx.db.patch(event!._id, { status: "failed", error: "Bug" });
+  });
+
+  // Already queued events can't be replayed twice
+  expect(
+    await t.mutation(api.public.replayWebhookEvent, {
+      stripeEventId: "evt_replay",
+      apiKey: "sk_test_123",
+    }),
+  ).toBe(true);
+  expect(
+    await t.mutation(api.public.replayWebhookEvent, {
+      stripeEventId: "evt_replay",
+      apiKey: "sk_test_123",
+    }),
+  ).toBe(false);
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const customer = await t.query(api.public.getCustomer, {
+    stripeCustomerId: "cus_replay",
+    includeTestData: true,
+  });
+  expect(customer?.email).toBe("replay@example.com");
+
+  const event = await getWebhookEvent(t, "evt_replay");
+  expect(event?.status).toBe("processed");
+  expect(event?.error).toBeUndefined();
+  vi.useRealTimers();
+});
+
+test("replaying all failed webhook events queues each of them", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  for (const id of ["evt_a", "evt_b", "evt_c"]) {
+    await t.run(async (ctx) => {
+      await ctx.db.insert("webhook_events", {
+        stripeEventId: id,
+        type: "balance.available",
+        payload: stripeEvent(id, "balance.available", {}),
+        status: "failed",
+        attempts: 8,
+        receivedAt: Date.now(),
+        error: "Bug",
+      });
+    });
+  }
+
+  const replayed = await t.mutation(api.public.replayFailedWebhookEvents, {
+    limit: 2,
+    apiKey: "sk_test_123",
+  });
+  expect(replayed).toBe(2);
+
+  await t.mutation(api.public.replayFailedWebhookEvents, {
+    apiKey: "sk_test_123",
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  expect(await t.query(api.public.listFailedWebhookEvents, {})).toHaveLength(0);
+  vi.useRealTimers();
+});
+
+test("events abandoned mid-attempt can be listed and replayed", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  // An attempt still running, and one that died 20 minutes ago
+  for (const [id, startedAgo] of [
+    ["evt_running", 60 * 1000],
+    ["evt_stuck", 20 * 60 * 1000],
+  ] as const) {
+    await t.run(async (ctx) => {
+      await ctx.db.insert("webhook_events", {
+        stripeEventId: id,
+        type: "balance.available",
+        payload: stripeEvent(id, "balance.available", {}),
+        status: "processing",
+        attempts: 1,
+        receivedAt: Date.now() - startedAgo,
+        lastAttemptAt: Date.now() - startedAgo,
+      });
+    });
+  }
+
+  const failed = await t.query(api.public.listFailedWebhookEvents, {});
+  expect(failed.map((event) => event.stripeEventId)).toEqual(["evt_stuck"]);
+
+  expect(
+    await t.mutation(api.public.replayWebhookEvent, {
+      stripeEventId: "evt_running",
+    }),
+  ).toBe(false);
+  expect(
+    await t.mutation(api.public.replayWebhookEvent, {
+      stripeEventId: "evt_stuck",
+    }),
+  ).toBe(true);
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  expect((await getWebhookEvent(t, "evt_stuck"))?.status).toBe("processed");
+  vi.useRealTimers();
+});
+
+// ============================================================================
+// OUT-OF-ORDER EVENT TESTS
+// ============================================================================
+
+test("stale subscription update is ignored when delivered out of order", async () => {
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.handleSubscriptionCreated, {
+    stripeSubscriptionId: "sub_reorder",
+    stripeCustomerId: "cus_test",
+    status: "incomplete",
+    currentPeriodEnd: 1000,
+    cancelAtPeriodEnd: false,
+    quantity: 1,
+    priceId: "price_test",
+    eventCreated: 100,
+  });
+
+  // The newer update (created at 300) arrives first
+  await t.mutation(api.private.handleSubscriptionUpdated, {
+    stripeSubscriptionId: "sub_reorder",
+    status: "canceled",
+    currentPeriodEnd: 1000,
+    cancelAtPeriodEnd: false,
+    quantity: 1,
+    eventCreated: 300,
+  });
+
+  // The older update (created at 200) arrives late
+  await t.mutation(api.private.handleSubscriptionUpdated, {
+    stripeSubscriptionId: "sub_reorder",
+    status: "active",
+    currentPeriodEnd: 1000,
+    cancelAtPeriodEnd: false,
+    quantity: 3,
+    eventCreated: 200,
+  });
+
+  const subscription = await t.query(api.public.getSubscription, {
+    stripeSubscriptionId: "sub_reorder",
+  });
+
+  expect(subscription?.status).toBe("canceled");
+  expect(subscription?.quantity).toBe(1);
+  expect(subscription?.lastEventCreated).toBe(300);
+});
+
+test("subscription update processed before its created event is kept", async () => {
+  const t = convexTest(schema, modules);
+
+  // The update (now active) is processed first
+  await t.mutation(api.private.handleSubscriptionUpdated, {
+    stripeSubscriptionId: "sub_updated_first",
+    stripeCustomerId: "cus_test",
+    status: "active",
+    currentPeriodEnd: 2000,
+    cancelAtPeriodEnd: false,
+    quantity: 1,
+    priceId: "price_test",
+    metadata: { userId: "user_123" },
+    eventCreated: 200,
+  });
+
+  // The created event (still incomplete) arrives late
+  await t.mutation(api.private.handleSubscriptionCreated, {
+    stripeSubscriptionId: "sub_updated_first",
+    stripeCustomerId: "cus_test",
+    status: "incomplete",
+    currentPeriodEnd: 1000,
+    cancelAtPeriodEnd: false,
+    quantity: 1,
+    priceId: "price_test",
+    metadata: { userId: "user_123" },
+    eventCreated: 100,
+  });
+
+  const subscription = await t.query(api.public.getSubscription, {
+    stripeSubscriptionId: "sub_updated_first",
+  });
+
+  expect(subscription).toMatchObject({
+    stripeCustomerId: "cus_test",
+    status: "active",
+    currentPeriodEnd: 2000,
+    priceId: "price_test",
+    userId: "user_123",
+    lastEventCreated: 200,
+  });
+});
+
+test("stale subscription update does not revive a deleted subscription", async () => {
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.handleSubscriptionCreated, {
+    stripeSubscriptionId: "sub_deleted_reorder",
+    stripeCustomerId: "cus_test",
+    status: "active",
+    currentPeriodEnd: 1000,
+    cancelAtPeriodEnd: false,
+    priceId: "price_test",
+    eventCreated: 100,
+  });
+
+  await t.mutation(api.private.handleSubscriptionDeleted, {
+    stripeSubscriptionId: "sub_deleted_reorder",
+    eventCreated: 300,
+  });
+
+  await t.mutation(api.private.handleSubscriptionUpdated, {
+    stripeSubscriptionId: "sub_deleted_reorder",
+    status: "active",
+    currentPeriodEnd: 1000,
+    cancelAtPeriodEnd: false,
+    eventCreated: 200,
+  });
+
+  const subscription = await t.query(api.public.getSubscription, {
+    stripeSubscriptionId: "sub_deleted_reorder",
+  });
+
+  expect(subscription?.status).toBe("canceled");
+});
+
+test("stale customer update is ignored when delivered out of order", async () => {
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.handleCustomerCreated, {
+    stripeCustomerId: "cus_reorder",
+    email: "first@example.com",
+    eventCreated: 100,
+  });
+
+  await t.mutation(api.private.handleCustomerUpdated, {
+    stripeCustomerId: "cus_reorder",
+    email: "newest@example.com",
+    eventCreated: 300,
+  });
+
+  await t.mutation(api.private.handleCustomerUpdated, {
+    stripeCustomerId: "cus_reorder",
+    email: "older@example.com",
+    eventCreated: 200,
+  });
+
+  const customer = await t.query(api.public.getCustomer, {
+    stripeCustomerId: "cus_reorder",
+  });
+
+  expect(customer?.email).toBe("newest@example.com");
+});
+
+test("stale invoice payment failure does not reopen a paid invoice", async () => {
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.handleInvoiceCreated, {
+    stripeInvoiceId: "in_reorder",
+    stripeCustomerId: "cus_test",
+    status: "open",
+    amountDue: 1000,
+    amountPaid: 0,
+    created: 100,
+    eventCreated: 100,
+  });
+
+  await t.mutation(api.private.handleInvoicePaid, {
+    stripeInvoiceId: "in_reorder",
+    amountPaid: 1000,
+    eventCreated: 300,
+  });
+
+  await t.mutation(api.private.handleInvoicePaymentFailed, {
+    stripeInvoiceId: "in_reorder",
+    eventCreated: 200,
+  });
+
+  const invoices = await t.query(api.public.listInvoices, {
+    stripeCustomerId: "cus_test",
+  });
+
+  expect(invoices[0].status).toBe("paid");
+  expect(invoices[0].amountPaid).toBe(1000);
+});
+
+test("updates without an event timestamp are always applied", async () => {
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.handleSubscriptionCreated, {
+    stripeSubscriptionId: "sub_no_timestamp",
+    stripeCustomerId: "cus_test",
+    status: "active",
+    currentPeriodEnd: 1000,
+    cancelAtPeriodEnd: false,
+    priceId: "price_test",
+    eventCreated: 300,
+  });
+
+  await t.mutation(api.private.handleSubscriptionUpdated, {
+    stripeSubscriptionId: "sub_no_timestamp",
+    status: "past_due",
+    currentPeriodEnd: 1000,
+    cancelAtPeriodEnd: false,
+  });
+
+  const subscription = await t.query(api.public.getSubscription, {
+    stripeSubscriptionId: "sub_no_timestamp",
+  });
+
+  expect(subscription?.status).toBe("past_due");
+});
+
+// ============================================================================
+// STRIPE CONNECT TESTS
+// ============================================================================
+
+test("connected account events are tagged with the account ID", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_connect",
+    type: "customer.created",
+    payload: JSON.stringify({
+      id: "evt_connect",
+      object: "event",
+      type: "customer.created",
+      account: "acct_seller",
+      created: 1700000000,
+      data: {
+        object: { id: "cus_connected", email: "buyer@example.com" },
+      },
+    }),
+    apiKey: "sk_test_123",
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const customer = await t.query(api.public.getCustomer, {
+    stripeCustomerId: "cus_connected",
+  });
+  expect(customer?.stripeAccountId).toBe("acct_seller");
+  vi.useRealTimers();
+});
+
+test("list subscriptions scoped by connected account", async () => {
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.handleSubscriptionCreated, {
+    stripeSubscriptionId: "sub_platform",
+    stripeCustomerId: "cus_platform",
+    status: "active",
+    currentPeriodEnd: Date.now(),
+    cancelAtPeriodEnd: false,
+    priceId: "price_test",
+  });
+
+  await t.mutation(api.private.handleSubscriptionCreated, {
+    stripeSubscriptionId: "sub_seller",
+    stripeCustomerId: "cus_seller",
+    status: "active",
+    currentPeriodEnd: Date.now(),
+    cancelAtPeriodEnd: false,
+    priceId: "price_test",
+    stripeAccountId: "acct_seller",
+  });
+
+  const subscriptions = await t.query(api.public.listSubscriptionsByAccountId, {
+    stripeAccountId: "acct_seller",
+  });
+
+  expect(subscriptions).toHaveLength(1);
+  expect(subscriptions[0].stripeSubscriptionId).toBe("sub_seller");
+});
+
+test("webhook events sync from the payload alone without an API key", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_checkout_payload",
+    type: "checkout.session.completed",
+    payload: stripeEvent("evt_checkout_payload", "checkout.session.completed", {
+      id: "cs_payload",
+      customer: "cus_payload",
+      mode: "subscription",
+      subscription: "sub_payload",
+      metadata: {},
+    }),
+  });
+
+  // A payment for an invoice cannot be checked against the API, so it is
+  // left to the invoice events
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_payment_payload",
+    type: "payment_intent.succeeded",
+    payload: stripeEvent("evt_payment_payload", "payment_intent.succeeded", {
+      id: "pi_payload",
+      invoice: "in_payload",
+      amount: 1000,
+      currency: "usd",
+      status: "succeeded",
+      created: 1700000000,
+      metadata: {},
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  expect((await getWebhookEvent(t, "evt_checkout_payload"))?.status).toBe(
+    "processed",
+  );
+  expect((await getWebhookEvent(t, "evt_payment_payload"))?.status).toBe(
+    "processed",
+  );
+
+  const session = await t.run(async (ctx) =>
+    ctx.db
+      .query("checkout_sessions")
+      .withIndex("by_stripe_checkout_session_id", (q) =>
+        q.eq("stripeCheckoutSessionId", "cs_payload"),
+      )
+      .unique(),
+  );
+  expect(session?.status).toBe("complete");
+
+  const payment = await t.query(api.public.getPayment, {
+    stripePaymentIntentId: "pi_payload",
+  });
+  expect(payment).toBeNull();
+  vi.useRealTimers();
+});
+
+test("refetch setting is stored with the webhook event", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_refetch",
+    type: "balance.available",
+    payload: stripeEvent("evt_refetch", "balance.available", {}),
+    refetch: true,
+  });
+
+  const event = await getWebhookEvent(t, "evt_refetch");
+  expect(event?.refetch).toBe(true);
+
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+  expect((await getWebhookEvent(t, "evt_refetch"))?.status).toBe("processed");
+  vi.useRealTimers();
+});
+
+function thinEvent(id: string, type: string, relatedObject?: object) {
+  return JSON.stringify({
+    id,
+    object: "v2.core.event",
+    type,
+    created: "2024-01-01T00:00:00.000Z",
+    related_object: relatedObject ?? null,
+  });
+}
+
+test("thin events without a related object are processed as no-ops", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_thin_empty",
+    type: "v1.billing.meter.error_report_triggered",
+    payload: thinEvent(
+      "evt_thin_empty",
+      "v1.billing.meter.error_report_triggered",
+    ),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  expect((await getWebhookEvent(t, "evt_thin_empty"))?.status).toBe(
+    "processed",
+  );
+  vi.useRealTimers();
+});
+
+test("thin events fail without an API key to fetch the object", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_thin_customer",
+    type: "v1.customer.updated",
+    payload: thinEvent("evt_thin_customer", "v1.customer.updated", {
+      id: "cus_thin",
+      type: "customer",
+      url: "/v1/customers/cus_thin",
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const event = await getWebhookEvent(t, "evt_thin_customer");
+  expect(event?.status).toBe("failed");
+  expect(event?.error).toContain("STRIPE_SECRET_KEY");
+  expect(
+    await t.query(api.public.getCustomer, {
+      stripeCustomerId: "cus_thin",
+      includeTestData: true,
+    }),
+  ).toBeNull();
+  vi.useRealTimers();
+});
+
+test("scheduled handlers retry on their own and record failures", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  // A handle to an action that rejects the `{ event }` argument always fails
+  const handle = await t.run(async () =>
+    createFunctionHandle(api.webhooks.processWebhookEvent),
+  );
+
+  const args = {
+    stripeEventId: "evt_handlers",
+    type: "customer.created",
+    payload: stripeEvent("evt_handlers", "customer.created", {
+      id: "cus_handlers",
+      metadata: {},
+    }),
+    handlers: [{ handler: "customer.created", handle }],
+  };
+  await t.mutation(api.private.enqueueWebhookEvent, args);
+
+  // A duplicate delivery does not schedule the handler again
+  await t.mutation(api.private.enqueueWebhookEvent, args);
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  // Default syncing is unaffected by the failing handler
+  expect((await getWebhookEvent(t, "evt_handlers"))?.status).toBe("processed");
+  expect(
+    await t.query(api.public.getCustomer, {
+      stripeCustomerId: "cus_handlers",
+      includeTestData: true,
+    }),
+  ).not.toBeNull();
+
+  const failed = await t.query(api.public.listFailedWebhookHandlerRuns, {});
+  expect(failed).toHaveLength(1);
+  expect(failed[0].stripeEventId).toBe("evt_handlers");
+  expect(failed[0].handler).toBe("customer.created");
+  expect(failed[0].attempts).toBe(8);
+  expect(failed[0].error).toBeDefined();
+  vi.useRealTimers();
+});
+
+test("events with default syncing turned off are recorded as skipped", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_skipped",
+    type: "customer.created",
+    payload: stripeEvent("evt_skipped", "customer.created", {
+      id: "cus_skipped",
+      metadata: {},
+    }),
+    skipDefault: true,
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const event = await getWebhookEvent(t, "evt_skipped");
+  expect(event?.status).toBe("skipped");
+  expect(event?.attempts).toBe(0);
+  expect(
+    await t.query(api.public.getCustomer, {
+      stripeCustomerId: "cus_skipped",
+      includeTestData: true,
+    }),
+  ).toBeNull();
+
+  // Replaying would run the sync the app turned off
+  expect(
+    await t.mutation(api.public.replayWebhookEvent, {
+      stripeEventId: "evt_skipped",
+    }),
+  ).toBe(false);
+  vi.useRealTimers();
+});
+
+test("webhook event audit log can be filtered and paginated", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  const events = [
+    {
+      id: "evt_audit_1",
+      type: "customer.subscription.updated",
+      object: "sub_X",
+    },
+    {
+      id: "evt_audit_2",
+      type: "customer.subscription.deleted",
+      object: "sub_X",
+    },
+    {
+      id: "evt_audit_3",
+      type: "customer.subscription.deleted",
+      object: "sub_Y",
+    },
+  ];
+  for (const { id, type, object } of events) {
+    await t.mutation(api.private.enqueueWebhookEvent, {
+      stripeEventId: id,
+      type,
+      payload: stripeEvent(id, type, { id: object, items: { data: [] } }),
+    });
+  }
+
+  // Was the cancellation for sub_X ever received?
+  const cancellations = await t.query(api.public.listWebhookEvents, {
+    paginationOpts: { numItems: 10, cursor: null },
+    objectId: "sub_X",
+    type: "customer.subscription.deleted",
+  });
+  expect(cancellations.page).toHaveLength(1);
+  expect(cancellations.page[0].stripeEventId).toBe("evt_audit_2");
+  expect(cancellations.page[0].objectId).toBe("sub_X");
+  expect(cancellations.page[0].livemode).toBe(false);
+
+  // Newest first, one page at a time
+  const first = await t.query(api.public.listWebhookEvents, {
+    paginationOpts: { numItems: 2, cursor: null },
+  });
+  expect(first.page.map((e) => e.stripeEventId)).toEqual([
+    "evt_audit_3",
+    "evt_audit_2",
+  ]);
+  const second = await t.query(api.public.listWebhookEvents, {
+    paginationOpts: { numItems: 2, cursor: first.continueCursor },
+  });
+  expect(second.page.map((e) => e.stripeEventId)).toEqual(["evt_audit_1"]);
+
+  const pending = await t.query(api.public.listWebhookEvents, {
+    paginationOpts: { numItems: 10, cursor: null },
+    status: "pending",
+  });
+  expect(pending.page).toHaveLength(3);
+  vi.useRealTimers();
+});
+
+test("test mode rows are excluded from queries by default", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  for (const [id, livemode] of [
+    ["cus_live", true],
+    ["cus_test", false],
+  ] as const) {
+    await t.mutation(api.private.enqueueWebhookEvent, {
+      stripeEventId: `evt_${id}`,
+      type: "customer.created",
+      payload: JSON.stringify({
+        id: `evt_${id}`,
+        object: "event",
+        type: "customer.created",
+        created: 1700000000,
+        livemode,
+        data: { object: { id, metadata: {} } },
+      }),
+    });
+  }
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const live = await t.query(api.public.getCustomer, {
+    stripeCustomerId: "cus_live",
+  });
+  expect(live?.livemode).toBe(true);
+
+  expect(
+    await t.query(api.public.getCustomer, { stripeCustomerId: "cus_test" }),
+  ).toBeNull();
+
+  const test = await t.query(api.public.getCustomer, {
+    stripeCustomerId: "cus_test",
+    includeTestData: true,
+  });
+  expect(test?.livemode).toBe(false);
+  vi.useRealTimers();
+});
+
+test("webhook health reports flow, outcomes and the oldest backlog", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_health_ok",
+    type: "customer.created",
+    payload: stripeEvent("evt_health_ok", "customer.created", {
+      id: "cus_health",
+      metadata: {},
+    }),
+  });
+  // Subscriptions without items can't be synced, so this one fails
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_health_failed",
+    type: "customer.subscription.created",
+    payload: stripeEvent("evt_health_failed", "customer.subscription.created", {
+      id: "sub_health",
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  // Received, but not processed yet
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_health_pending",
+    type: "customer.created",
+    payload: stripeEvent("evt_health_pending", "customer.created", {
+      id: "cus_health_pending",
+      metadata: {},
+    }),
+  });
+
+  const health = await t.query(api.public.getWebhookHealth, {});
+
+  expect(health.lastEventByType).toEqual([
+    expect.objectContaining({
+      type: "customer.created",
+      stripeEventId: "evt_health_pending",
+    }),
+    expect.objectContaining({
+      type: "customer.subscription.created",
+      stripeEventId: "evt_health_failed",
+    }),
+  ]);
+  expect(health.windows.find((w) => w.window === "1h")).toEqual({
+    window: "1h",
+    received: 3,
+    processed: 1,
+    failed: 1,
+  });
+  expect(health.oldestUnprocessedEvent?.stripeEventId).toBe(
+    "evt_health_pending",
+  );
+  vi.useRealTimers();
+});
+
+test("stored webhook endpoints keep their signing secret on update", async () => {
+  const t = initConvexTest();
+
+  await t.mutation(api.private.storeWebhookEndpoint, {
+    stripeWebhookEndpointId: "we_123",
+    url: "https://example.convex.site/stripe/webhook",
+    enabledEvents: ["customer.created"],
+    secret: "whsec_endpoint",
+    livemode: false,
+  });
+  // Stripe omits the secret when an endpoint is updated
+  await t.mutation(api.private.storeWebhookEndpoint, {
+    stripeWebhookEndpointId: "we_123",
+    url: "https://example.convex.site/stripe/webhook",
+    enabledEvents: ["customer.created", "invoice.paid"],
+    livemode: false,
+  });
+
+  const endpoints = await t.run((ctx) =>
+    ctx.db.query("webhook_endpoints").collect(),
+  );
+  expect(endpoints).toHaveLength(1);
+  expect(endpoints[0].enabledEvents).toEqual([
+    "customer.created",
+    "invoice.paid",
+  ]);
+  expect(await t.query(api.private.getWebhookSigningSecrets, {})).toEqual([
+    "whsec_endpoint",
+  ]);
+});
+
+test("products and prices are synced from catalog webhooks", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_product",
+    type: "product.created",
+    payload: stripeEvent("evt_product", "product.created", {
+      id: "prod_pro",
+      object: "product",
+      name: "Pro",
+      description: null,
+      active: true,
+      default_price: "price_pro_monthly",
+      metadata: {},
+    }),
+  });
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_price",
+    type: "price.created",
+    payload: stripeEvent("evt_price", "price.created", {
+      id: "price_pro_monthly",
+      object: "price",
+      product: "prod_pro",
+      active: true,
+      currency: "usd",
+      unit_amount: 2000,
+      type: "recurring",
+      recurring: { interval: "month", interval_count: 1 },
+      billing_scheme: "per_unit",
+      tiers_mode: null,
+      lookup_key: "pro_monthly",
+      nickname: null,
+      metadata: {},
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const product = await t.query(api.public.getProduct, {
+    stripeProductId: "prod_pro",
+    includeTestData: true,
+  });
+  expect(product).toMatchObject({
+    name: "Pro",
+    active: true,
+    defaultPriceId: "price_pro_monthly",
+  });
+
+  const price = await t.query(api.public.getPriceByLookupKey, {
+    lookupKey: "pro_monthly",
+    includeTestData: true,
+  });
+  expect(price).toMatchObject({
+    stripePriceId: "price_pro_monthly",
+    stripeProductId: "prod_pro",
+    unitAmount: 2000,
+    currency: "usd",
+    recurringInterval: "month",
+  });
+  expect(
+    await t.query(api.public.listActivePrices, {
+      stripeProductId: "prod_pro",
+      includeTestData: true,
+    }),
+  ).toHaveLength(1);
+
+  // Archived prices drop out of the active list
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_price_archived",
+    type: "price.updated",
+    payload: stripeEvent("evt_price_archived", "price.updated", {
+      id: "price_pro_monthly",
+      object: "price",
+      product: "prod_pro",
+      active: false,
+      currency: "usd",
+      unit_amount: 2000,
+      type: "recurring",
+      recurring: { interval: "month", interval_count: 1 },
+      billing_scheme: "per_unit",
+      tiers_mode: null,
+      lookup_key: "pro_monthly",
+      nickname: null,
+      metadata: {},
+    }),
+  });
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_product_deleted",
+    type: "product.deleted",
+    payload: stripeEvent("evt_product_deleted", "product.deleted", {
+      id: "prod_pro",
+      object: "product",
+      name: "Pro",
+      description: null,
+      active: false,
+      default_price: null,
+      metadata: {},
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  expect(
+    await t.query(api.public.listActivePrices, { includeTestData: true }),
+  ).toEqual([]);
+  expect(
+    await t.query(api.public.getPriceByLookupKey, {
+      lookupKey: "pro_monthly",
+      includeTestData: true,
+    }),
+  ).toBeNull();
+  expect(
+    await t.query(api.public.getProduct, {
+      stripeProductId: "prod_pro",
+      includeTestData: true,
+    }),
+  ).toBeNull();
+
+  // Older updates delivered after the deletion do not bring it back
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_price_deleted",
+    type: "price.deleted",
+    payload: stripeEvent("evt_price_deleted", "price.deleted", {
+      id: "price_pro_monthly",
+      object: "price",
+      product: "prod_pro",
+      active: false,
+      currency: "usd",
+      unit_amount: 2000,
+      type: "recurring",
+      recurring: { interval: "month", interval_count: 1 },
+      billing_scheme: "per_unit",
+      tiers_mode: null,
+      lookup_key: "pro_monthly",
+      nickname: null,
+      metadata: {},
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+  await t.mutation(api.private.handleProductUpserted, {
+    stripeProductId: "prod_pro",
+    name: "Pro",
+    active: true,
+    eventCreated: 1699999000,
+    livemode: false,
+  });
+  await t.mutation(api.private.handlePriceUpserted, {
+    stripePriceId: "price_pro_monthly",
+    stripeProductId: "prod_pro",
+    active: true,
+    currency: "usd",
+    unitAmount: 2000,
+    type: "recurring",
+    billingScheme: "per_unit",
+    lookupKey: "pro_monthly",
+    eventCreated: 1699999000,
+    livemode: false,
+  });
+
+  expect(
+    await t.query(api.public.listActiveProducts, { includeTestData: true }),
+  ).toEqual([]);
+  expect(
+    await t.query(api.public.listActivePrices, { includeTestData: true }),
+  ).toEqual([]);
+  expect(
+    await t.query(api.public.getPriceByLookupKey, {
+      lookupKey: "pro_monthly",
+      includeTestData: true,
+    }),
+  ).toBeNull();
+  expect(
+    await t.query(api.public.getProduct, {
+      stripeProductId: "prod_pro",
+      includeTestData: true,
+    }),
+  ).toBeNull();
+  expect(
+    await t.query(api.public.getPrice, {
+      stripePriceId: "price_pro_monthly",
+      includeTestData: true,
+    }),
+  ).toBeNull();
+  vi.useRealTimers();
+});
+
+test("subscription items are stored one row per price", async () => {
+  const t = convexTest(schema, modules);
+  const seats = {
+    stripeSubscriptionItemId: "si_seats",
+    priceId: "price_seats",
+    quantity: 5,
+    currentPeriodStart: 1700000000,
+    currentPeriodEnd: 1702592000,
+  };
+  const addon = {
+    stripeSubscriptionItemId: "si_addon",
+    priceId: "price_addon",
+    quantity: 1,
+    currentPeriodStart: 1700000000,
+    currentPeriodEnd: 1702592000,
+  };
+
+  await t.mutation(api.private.handleSubscriptionCreated, {
+    stripeSubscriptionId: "sub_items",
+    stripeCustomerId: "cus_items",
+    status: "active",
+    currentPeriodEnd: 1702592000,
+    cancelAtPeriodEnd: false,
+    quantity: 5,
+    priceId: "price_seats",
+    items: [seats, addon],
+  });
+
+  const items = await t.query(api.public.listSubscriptionItems, {
+    stripeSubscriptionId: "sub_items",
+  });
+  expect(items.map((item) => item.priceId)).toEqual([
+    "price_seats",
+    "price_addon",
+  ]);
+
+  // Updating the add-on leaves the seat count on the subscription alone
+  await t.mutation(api.private.updateSubscriptionQuantityInternal, {
+    stripeSubscriptionId: "sub_items",
+    quantity: 3,
+    stripeSubscriptionItemId: "si_addon",
+    priceId: "price_addon",
+  });
+  expect(
+    (
+      await t.query(api.public.getSubscription, {
+        stripeSubscriptionId: "sub_items",
+      })
+    )?.quantity,
+  ).toBe(5);
+  expect(
+    (
+      await t.query(api.public.listSubscriptionItems, {
+        stripeSubscriptionId: "sub_items",
+      })
+    ).find((item) => item.stripeSubscriptionItemId === "si_addon")?.quantity,
+  ).toBe(3);
+
+  // Items removed in Stripe are removed here too
+  await t.mutation(api.private.handleSubscriptionUpdated, {
+    stripeSubscriptionId: "sub_items",
+    status: "active",
+    currentPeriodEnd: 1702592000,
+    cancelAtPeriodEnd: false,
+    quantity: 5,
+    items: [seats],
+  });
+  expect(
+    await t.query(api.public.listSubscriptionItems, {
+      stripeSubscriptionId: "sub_items",
+    }),
+  ).toEqual([
+    expect.objectContaining({
+      stripeSubscriptionItemId: "si_seats",
+      stripeSubscriptionId: "sub_items",
+      quantity: 5,
+    }),
+  ]);
+});
+
+test("payment methods and the default one are synced from webhooks", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+  const card = {
+    id: "pm_visa",
+    object: "payment_method",
+    customer: "cus_pm",
+    type: "card",
+    card: { brand: "visa", last4: "4242", exp_month: 4, exp_year: 2027 },
+    metadata: {},
+  };
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_customer_pm",
+    type: "customer.created",
+    payload: stripeEvent("evt_customer_pm", "customer.created", {
+      id: "cus_pm",
+      object: "customer",
+      metadata: {},
+      invoice_settings: { default_payment_method: null },
+    }),
+  });
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_pm_attached",
+    type: "payment_method.attached",
+    payload: stripeEvent("evt_pm_attached", "payment_method.attached", card),
+  });
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_customer_default",
+    type: "customer.updated",
+    payload: stripeEvent("evt_customer_default", "customer.updated", {
+      id: "cus_pm",
+      object: "customer",
+      metadata: {},
+      invoice_settings: { default_payment_method: "pm_visa" },
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  expect(
+    await t.query(api.public.getDefaultPaymentMethod, {
+      stripeCustomerId: "cus_pm",
+      includeTestData: true,
+    }),
+  ).toMatchObject({
+    stripePaymentMethodId: "pm_visa",
+    type: "card",
+    brand: "visa",
+    last4: "4242",
+    expMonth: 4,
+    expYear: 2027,
+  });
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_pm_detached",
+    type: "payment_method.detached",
+    payload: stripeEvent("evt_pm_detached", "payment_method.detached", {
+      ...card,
+      customer: null,
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  expect(
+    await t.query(api.public.listPaymentMethods, {
+      stripeCustomerId: "cus_pm",
+      includeTestData: true,
+    }),
+  ).toEqual([]);
+
+  // An update from before the detach, delivered late, does not restore it
+  await t.mutation(api.private.handlePaymentMethodUpserted, {
+    stripePaymentMethodId: "pm_visa",
+    stripeCustomerId: "cus_pm",
+    type: "card",
+    eventCreated: 1699999000,
+    livemode: false,
+  });
+  expect(
+    await t.query(api.public.listPaymentMethods, {
+      stripeCustomerId: "cus_pm",
+      includeTestData: true,
+    }),
+  ).toEqual([]);
+  expect(
+    await t.query(api.public.getDefaultPaymentMethod, {
+      stripeCustomerId: "cus_pm",
+      includeTestData: true,
+    }),
+  ).toBeNull();
+  vi.useRealTimers();
+});
+
+test("refunds update the refunded amount and status of their payment", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+  const refund = (id: string, amount: number, status: string) => ({
+    id,
+    object: "refund",
+    payment_intent: "pi_refunded",
+    charge: "ch_refunded",
+    amount,
+    currency: "usd",
+    status,
+    reason: "requested_by_customer",
+    created: 1700000000,
+    metadata: {},
+  });
+
+  await t.mutation(api.private.handlePaymentIntentSucceeded, {
+    stripePaymentIntentId: "pi_refunded",
+    amount: 5000,
+    currency: "usd",
+    status: "succeeded",
+    created: 1700000000,
+    metadata: { userId: "user_refund" },
+    livemode: false,
+  });
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_refund_created",
+    type: "refund.created",
+    payload: stripeEvent(
+      "evt_refund_created",
+      "refund.created",
+      refund("re_partial", 2000, "succeeded"),
+    ),
+  });
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_charge_refunded",
+    type: "charge.refunded",
+    payload: stripeEvent("evt_charge_refunded", "charge.refunded", {
+      id: "ch_refunded",
+      object: "charge",
+      payment_intent: "pi_refunded",
+      amount: 5000,
+      amount_refunded: 2000,
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const payment = await t.query(api.public.getPayment, {
+    stripePaymentIntentId: "pi_refunded",
+    includeTestData: true,
+  });
+  expect(payment).toMatchObject({
+    status: "partially_refunded",
+    amountRefunded: 2000,
+  });
+  expect(
+    await t.query(api.public.listRefundsByUserId, {
+      userId: "user_refund",
+      includeTestData: true,
+    }),
+  ).toEqual([
+    expect.objectContaining({
+      stripeRefundId: "re_partial",
+      amount: 2000,
+      status: "succeeded",
+    }),
+  ]);
+
+  // A failed refund gives the amount back to the payment
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_refund_failed",
+    type: "refund.failed",
+    payload: stripeEvent(
+      "evt_refund_failed",
+      "refund.failed",
+      refund("re_partial", 2000, "failed"),
+    ),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  expect(
+    await t.query(api.public.getPayment, {
+      stripePaymentIntentId: "pi_refunded",
+      includeTestData: true,
+    }),
+  ).toMatchObject({ status: "succeeded", amountRefunded: 0 });
+  vi.useRealTimers();
+});
+
+test("an older refunded total does not count a refund that failed since", async () => {
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.handlePaymentIntentSucceeded, {
+    stripePaymentIntentId: "pi_refund_reorder",
+    amount: 5000,
+    currency: "usd",
+    status: "succeeded",
+    created: 1700000000,
+  });
+  await t.mutation(api.private.handleRefundUpserted, {
+    stripeRefundId: "re_reorder",
+    stripePaymentIntentId: "pi_refund_reorder",
+    amount: 2000,
+    currency: "usd",
+    status: "pending",
+    created: 1700000000,
+    eventCreated: 100,
+  });
+
+  // The refund fails (at 300) before charge.refunded (at 200) is processed
+  await t.mutation(api.private.handleRefundUpserted, {
+    stripeRefundId: "re_reorder",
+    stripePaymentIntentId: "pi_refund_reorder",
+    amount: 2000,
+    currency: "usd",
+    status: "failed",
+    created: 1700000000,
+    eventCreated: 300,
+  });
+  await t.mutation(api.private.handleChargeRefunded, {
+    stripePaymentIntentId: "pi_refund_reorder",
+    amountRefunded: 2000,
+    eventCreated: 200,
+  });
+
+  const payment = await t.query(api.public.getPayment, {
+    stripePaymentIntentId: "pi_refund_reorder",
+  });
+  expect(payment?.status).toBe("succeeded");
+  expect(payment?.amountRefunded).toBeUndefined();
+});
+
+test("refunds synced before their payment are counted when it arrives", async () => {
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.handleRefundUpserted, {
+    stripeRefundId: "re_early",
+    stripePaymentIntentId: "pi_late",
+    amount: 1000,
+    currency: "usd",
+    status: "succeeded",
+    created: 1700000000,
+  });
+  await t.mutation(api.private.handlePaymentIntentSucceeded, {
+    stripePaymentIntentId: "pi_late",
+    amount: 1000,
+    currency: "usd",
+    status: "succeeded",
+    created: 1700000000,
+    metadata: { orgId: "org_late" },
+  });
+
+  expect(
+    await t.query(api.public.getPayment, { stripePaymentIntentId: "pi_late" }),
+  ).toMatchObject({ status: "refunded", amountRefunded: 1000 });
+  expect(
+    await t.query(api.public.listRefunds, { stripePaymentIntentId: "pi_late" }),
+  ).toEqual([expect.objectContaining({ orgId: "org_late" })]);
+});
+
+test("disputes are linked to the user and org of the disputed payment", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+  const dispute = (status: string) => ({
+    id: "dp_123",
+    object: "dispute",
+    charge: "ch_123",
+    payment_intent: "pi_disputed",
+    amount: 5000,
+    currency: "usd",
+    reason: "fraudulent",
+    status,
+    evidence_details: { due_by: 1700864000 },
+    created: 1700000000,
+    metadata: {},
+  });
+
+  await t.mutation(api.private.handlePaymentIntentSucceeded, {
+    stripePaymentIntentId: "pi_disputed",
+    amount: 5000,
+    currency: "usd",
+    status: "succeeded",
+    created: 1700000000,
+    metadata: { userId: "user_disputed", orgId: "org_disputed" },
+  });
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_dispute_created",
+    type: "charge.dispute.created",
+    payload: stripeEvent(
+      "evt_dispute_created",
+      "charge.dispute.created",
+      dispute("needs_response"),
+    ),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  expect(
+    await t.query(api.public.listDisputesByOrgId, {
+      orgId: "org_disputed",
+      includeTestData: true,
+    }),
+  ).toEqual([
+    expect.objectContaining({
+      stripeDisputeId: "dp_123",
+      stripePaymentIntentId: "pi_disputed",
+      userId: "user_disputed",
+      status: "needs_response",
+      evidenceDueBy: 1700864000,
+    }),
+  ]);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_dispute_closed",
+    type: "charge.dispute.closed",
+    payload: stripeEvent(
+      "evt_dispute_closed",
+      "charge.dispute.closed",
+      dispute("won"),
+    ),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  expect(
+    await t.query(api.public.listDisputesByUserId, {
+      userId: "user_disputed",
+      includeTestData: true,
+    }),
+  ).toEqual([expect.objectContaining({ status: "won" })]);
+  vi.useRealTimers();
+});
+
+test("discounts record the coupon and promotion code that were redeemed", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_coupon",
+    type: "coupon.created",
+    payload: stripeEvent("evt_coupon", "coupon.created", {
+      id: "co_launch",
+      object: "coupon",
+      name: "Launch",
+      percent_off: 20,
+      amount_off: null,
+      currency: null,
+      duration: "repeating",
+      duration_in_months: 3,
+      max_redemptions: null,
+      times_redeemed: 0,
+      redeem_by: null,
+      valid: true,
+      metadata: {},
+    }),
+  });
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_promotion_code",
+    type: "promotion_code.created",
+    payload: stripeEvent("evt_promotion_code", "promotion_code.created", {
+      id: "promo_launch",
+      object: "promotion_code",
+      code: "LAUNCH20",
+      promotion: { type: "coupon", coupon: "co_launch" },
+      active: true,
+      customer: null,
+      max_redemptions: null,
+      times_redeemed: 0,
+      expires_at: null,
+      metadata: {},
+    }),
+  });
+  // Subscription payloads list discounts by ID only
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_discounted_subscription",
+    type: "customer.subscription.created",
+    payload: stripeEvent(
+      "evt_discounted_subscription",
+      "customer.subscription.created",
+      {
+        id: "sub_discounted",
+        object: "subscription",
+        customer: "cus_discounted",
+        status: "active",
+        cancel_at_period_end: false,
+        items: { data: [], has_more: false },
+        discounts: ["di_launch"],
+        metadata: {},
+      },
+    ),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_discount",
+    type: "customer.discount.created",
+    payload: stripeEvent("evt_discount", "customer.discount.created", {
+      id: "di_launch",
+      object: "discount",
+      source: { type: "coupon", coupon: "co_launch" },
+      promotion_code: "promo_launch",
+      customer: "cus_discounted",
+      subscription: "sub_discounted",
+      invoice: null,
+      start: 1700000000,
+      end: 1707776000,
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const subscription = await t.query(api.public.getSubscription, {
+    stripeSubscriptionId: "sub_discounted",
+    includeTestData: true,
+  });
+  expect(subscription?.discounts).toEqual([
+    {
+      stripeDiscountId: "di_launch",
+      stripeCouponId: "co_launch",
+      stripePromotionCodeId: "promo_launch",
+      percentOff: 20,
+      end: 1707776000,
+    },
+  ]);
+
+  const promotionCode = await t.query(api.public.getPromotionCode, {
+    code: "LAUNCH20",
+    includeTestData: true,
+  });
+  expect(promotionCode?.stripeCouponId).toBe("co_launch");
+  expect(
+    await t.query(api.public.listPromotionCodeRedemptions, {
+      stripePromotionCodeId: promotionCode!.stripePromotionCodeId,
+      includeTestData: true,
+    }),
+  ).toEqual([
+    expect.objectContaining({
+      stripeCustomerId: "cus_discounted",
+      stripeSubscriptionId: "sub_discounted",
+    }),
+  ]);
+
+  // An older update delivered after the deletion does not bring it back
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_coupon_deleted",
+    type: "coupon.deleted",
+    payload: stripeEvent("evt_coupon_deleted", "coupon.deleted", {
+      id: "co_launch",
+      object: "coupon",
+      name: "Launch",
+      percent_off: 20,
+      amount_off: null,
+      currency: null,
+      duration: "repeating",
+      duration_in_months: 3,
+      max_redemptions: null,
+      times_redeemed: 1,
+      redeem_by: null,
+      valid: false,
+      metadata: {},
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+  await t.mutation(api.private.handleCouponUpserted, {
+    stripeCouponId: "co_launch",
+    name: "Launch",
+    percentOff: 20,
+    duration: "repeating",
+    durationInMonths: 3,
+    timesRedeemed: 0,
+    valid: true,
+    eventCreated: 1699999000,
+    livemode: false,
+  });
+  expect(
+    await t.query(api.public.getCoupon, {
+      stripeCouponId: "co_launch",
+      includeTestData: true,
+    }),
+  ).toBeNull();
+  vi.useRealTimers();
+});
+
+test("invoices keep their links, totals and line items as they change", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+  const invoice = {
+    id: "in_history",
+    object: "invoice",
+    customer: "cus_history",
+    status: "draft",
+    number: null,
+    currency: "usd",
+    amount_due: 2400,
+    amount_paid: 0,
+    subtotal: 2000,
+    total: 2400,
+    total_taxes: [{ amount: 400 }],
+    created: 1700000000,
+    period_start: 1697408000,
+    period_end: 1700000000,
+    due_date: null,
+    hosted_invoice_url: null,
+    invoice_pdf: null,
+    discounts: [],
+    lines: {
+      data: [
+        {
+          id: "il_seats",
+          object: "line_item",
+          description: "5 × Seats",
+          amount: 2000,
+          currency: "usd",
+          quantity: 5,
+          pricing: {
+            type: "price_details",
+            price_details: { price: "price_seats", product: "prod_seats" },
+          },
+          parent: {
+            type: "subscription_item_details",
+            subscription_item_details: {
+              subscription: "sub_history",
+              subscription_item: "si_seats",
+              proration: false,
+            },
+          },
+          subscription: "sub_history",
+          period: { start: 1697408000, end: 1700000000 },
+          metadata: {},
+        },
+      ],
+      has_more: false,
+    },
+  };
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_invoice_created",
+    type: "invoice.created",
+    payload: stripeEvent("evt_invoice_created", "invoice.created", invoice),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_invoice_finalized",
+    type: "invoice.finalized",
+    payload: stripeEvent("evt_invoice_finalized", "invoice.finalized", {
+      ...invoice,
+      status: "open",
+      number: "HIST-0001",
+      due_date: 1702592000,
+      hosted_invoice_url: "https://invoice.stripe.com/i/in_history",
+      invoice_pdf: "https://pay.stripe.com/invoice/in_history/pdf",
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const [finalized] = await t.query(api.public.listInvoices, {
+    stripeCustomerId: "cus_history",
+    includeTestData: true,
+  });
+  expect(finalized).toMatchObject({
+    status: "open",
+    number: "HIST-0001",
+    currency: "usd",
+    periodStart: 1697408000,
+    periodEnd: 1700000000,
+    dueDate: 1702592000,
+    hostedInvoiceUrl: "https://invoice.stripe.com/i/in_history",
+    invoicePdf: "https://pay.stripe.com/invoice/in_history/pdf",
+    subtotal: 2000,
+    tax: 400,
+    total: 2400,
+  });
+  expect(
+    await t.query(api.public.listInvoiceLineItems, {
+      stripeInvoiceId: "in_history",
+      includeTestData: true,
+    }),
+  ).toEqual([
+    expect.objectContaining({
+      stripeInvoiceLineItemId: "il_seats",
+      amount: 2000,
+      quantity: 5,
+      priceId: "price_seats",
+      stripeProductId: "prod_seats",
+      stripeSubscriptionId: "sub_history",
+      stripeSubscriptionItemId: "si_seats",
+      proration: false,
+    }),
+  ]);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_invoice_voided",
+    type: "invoice.voided",
+    payload: stripeEvent("evt_invoice_voided", "invoice.voided", {
+      ...invoice,
+      status: "void",
+      number: "HIST-0001",
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const [voided] = await t.query(api.public.listInvoices, {
+    stripeCustomerId: "cus_history",
+    includeTestData: true,
+  });
+  expect(voided.status).toBe("void");
+  vi.useRealTimers();
+});
+
+test("invoice updates keep the subscription of a checkout invoice", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  // Stored by checkout.session.completed, which knows the subscription
+  await t.mutation(api.private.handleInvoiceCreated, {
+    stripeInvoiceId: "in_checkout",
+    stripeCustomerId: "cus_checkout",
+    stripeSubscriptionId: "sub_checkout",
+    status: "paid",
+    amountDue: 1000,
+    amountPaid: 1000,
+    created: 1699990000,
+    livemode: false,
+  });
+
+  const invoice = {
+    id: "in_checkout",
+    object: "invoice",
+    customer: "cus_checkout",
+    status: "paid",
+    amount_due: 1000,
+    amount_paid: 1000,
+    created: 1699990000,
+    parent: null,
+    lines: { data: [], has_more: false },
+  };
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_checkout_invoice_updated",
+    type: "invoice.updated",
+    payload: stripeEvent("evt_checkout_invoice_updated", "invoice.updated", {
+      ...invoice,
+      number: "CHK-0001",
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const [updated] = await t.query(api.public.listInvoices, {
+    stripeCustomerId: "cus_checkout",
+    includeTestData: true,
+  });
+  expect(updated.number).toBe("CHK-0001");
+  expect(updated.stripeSubscriptionId).toBe("sub_checkout");
+
+  // Current API versions report the subscription under `parent`
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_parent_invoice_created",
+    type: "invoice.created",
+    payload: stripeEvent("evt_parent_invoice_created", "invoice.created", {
+      ...invoice,
+      id: "in_parent",
+      parent: {
+        type: "subscription_details",
+        subscription_details: { subscription: "sub_parent", metadata: {} },
+      },
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const parentInvoice = (
+    await t.query(api.public.listInvoices, {
+      stripeCustomerId: "cus_checkout",
+      includeTestData: true,
+    })
+  ).find((i) => i.stripeInvoiceId === "in_parent");
+  expect(parentInvoice?.stripeSubscriptionId).toBe("sub_parent");
+  vi.useRealTimers();
+});
+
+test("subscription trial, pause and cancellation dates are synced", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+  const subscription = {
+    id: "sub_lifecycle",
+    object: "subscription",
+    customer: "cus_lifecycle",
+    status: "trialing",
+    cancel_at_period_end: false,
+    trial_start: 1700000000,
+    trial_end: 1701209600,
+    cancel_at: null,
+    canceled_at: null,
+    ended_at: null,
+    pause_collection: null,
+    collection_method: "charge_automatically",
+    items: {
+      data: [
+        {
+          id: "si_lifecycle",
+          price: { id: "price_lifecycle", product: "prod_lifecycle" },
+          quantity: 1,
+          current_period_start: 1700000000,
+          current_period_end: 1701209600,
+          metadata: {},
+        },
+      ],
+      has_more: false,
+    },
+    metadata: {},
+  };
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_trial_started",
+    type: "customer.subscription.created",
+    payload: stripeEvent(
+      "evt_trial_started",
+      "customer.subscription.created",
+      subscription,
+    ),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_paused",
+    type: "customer.subscription.paused",
+    payload: stripeEvent("evt_paused", "customer.subscription.paused", {
+      ...subscription,
+      status: "paused",
+      cancel_at: 1703801600,
+      canceled_at: 1700600000,
+      pause_collection: { behavior: "void", resumes_at: 1702592000 },
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  expect(
+    await t.query(api.public.getSubscription, {
+      stripeSubscriptionId: "sub_lifecycle",
+      includeTestData: true,
+    }),
+  ).toMatchObject({
+    status: "paused",
+    currentPeriodStart: 1700000000,
+    trialStart: 1700000000,
+    trialEnd: 1701209600,
+    cancelAt: 1703801600,
+    canceledAt: 1700600000,
+    pauseCollection: { behavior: "void", resumesAt: 1702592000 },
+    collectionMethod: "charge_automatically",
+  });
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_ended",
+    type: "customer.subscription.deleted",
+    payload: stripeEvent("evt_ended", "customer.subscription.deleted", {
+      ...subscription,
+      status: "canceled",
+      ended_at: 1703801600,
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const ended = await t.query(api.public.getSubscription, {
+    stripeSubscriptionId: "sub_lifecycle",
+    includeTestData: true,
+  });
+  expect(ended?.status).toBe("canceled");
+  expect(ended?.endedAt).toBe(1703801600);
+  vi.useRealTimers();
+});
+
+test("checkout sessions are stored open and follow their webhooks", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  // As stored by the client when the session is created
+  await t.mutation(api.private.handleCheckoutSessionUpserted, {
+    stripeCheckoutSessionId: "cs_delayed",
+    stripeCustomerId: "cus_delayed",
+    status: "open",
+    paymentStatus: "unpaid",
+    mode: "payment",
+    amountTotal: 5000,
+    currency: "eur",
+    url: "https://checkout.stripe.com/c/pay/cs_delayed",
+    expiresAt: 1700086400,
+    userId: "user_delayed",
+    eventCreated: 1699990000,
+    livemode: false,
+  });
+
+  const open = await t.query(api.public.getCheckoutSession, {
+    stripeCheckoutSessionId: "cs_delayed",
+    includeTestData: true,
+  });
+  expect(open).toMatchObject({
+    status: "open",
+    amountTotal: 5000,
+    url: "https://checkout.stripe.com/c/pay/cs_delayed",
+    userId: "user_delayed",
+  });
+
+  const session = {
+    id: "cs_delayed",
+    object: "checkout.session",
+    customer: "cus_delayed",
+    status: "complete",
+    payment_status: "unpaid",
+    mode: "payment",
+    amount_total: 5000,
+    currency: "eur",
+    url: null,
+    expires_at: 1700086400,
+    payment_intent: null,
+    metadata: {},
+  };
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_delayed_completed",
+    type: "checkout.session.completed",
+    payload: stripeEvent(
+      "evt_delayed_completed",
+      "checkout.session.completed",
+      session,
+    ),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_delayed_paid",
+    type: "checkout.session.async_payment_succeeded",
+    payload: stripeEvent(
+      "evt_delayed_paid",
+      "checkout.session.async_payment_succeeded",
+      { ...session, payment_status: "paid" },
+    ),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  const paid = await t.query(api.public.getCheckoutSession, {
+    stripeCheckoutSessionId: "cs_delayed",
+    includeTestData: true,
+  });
+  expect(paid).toMatchObject({
+    status: "complete",
+    paymentStatus: "paid",
+    userId: "user_delayed",
+  });
+  expect(paid?.url).toBeUndefined();
+
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_abandoned",
+    type: "checkout.session.expired",
+    payload: stripeEvent("evt_abandoned", "checkout.session.expired", {
+      ...session,
+      id: "cs_abandoned",
+      status: "expired",
+      metadata: { orgId: "org_abandoned" },
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  expect(
+    await t.query(api.public.getCheckoutSession, {
+      stripeCheckoutSessionId: "cs_abandoned",
+      includeTestData: true,
+    }),
+  ).toMatchObject({ status: "expired", orgId: "org_abandoned" });
+
+  // A failed delayed payment is told apart from one still in progress
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_delayed_failed",
+    type: "checkout.session.async_payment_failed",
+    payload: stripeEvent(
+      "evt_delayed_failed",
+      "checkout.session.async_payment_failed",
+      { ...session, id: "cs_failed" },
+    ),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  expect(
+    await t.query(api.public.getCheckoutSession, {
+      stripeCheckoutSessionId: "cs_failed",
+      includeTestData: true,
+    }),
+  ).toMatchObject({ status: "complete", paymentStatus: "failed" });
+  vi.useRealTimers();
+});
+
+test("deleted customers are flagged and left out of lookups", async () => {
+  vi.useFakeTimers();
+  const t = convexTest(schema, modules);
+
+  await t.mutation(api.private.handleCustomerCreated, {
+    stripeCustomerId: "cus_gone",
+    email: "gone@example.com",
+    eventCreated: 1699990000,
+    livemode: false,
+  });
+  await t.mutation(api.private.enqueueWebhookEvent, {
+    stripeEventId: "evt_customer_deleted",
+    type: "customer.deleted",
+    payload: stripeEvent("evt_customer_deleted", "customer.deleted", {
+      id: "cus_gone",
+      object: "customer",
+      deleted: true,
+    }),
+  });
+  await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+  expect(
+    await t.query(api.public.getCustomer, {
+      stripeCustomerId: "cus_gone",
+      includeTestData: true,
+    }),
+  ).toBeNull();
+  expect(
+    await t.query(api.private.isCustomerDeleted, {
+      stripeCustomerId: "cus_gone",
+    }),
+  ).toBe(true);
+
+  // An update delivered late does not bring the customer back
+  await t.mutation(api.private.handleCustomerUpdated, {
+    stripeCustomerId: "cus_gone",
+    email: "gone@example.com",
+    eventCreated: 1699995000,
+  });
+  expect(
+    await t.query(api.private.isCustomerDeleted, {
+      stripeCustomerId: "cus_gone",
+    }),
+  ).toBe(true);
+
+  // Neither does a creation delivered after the deletion
+  await t.mutation(api.private.handleCustomerDeleted, {
+    stripeCustomerId: "cus_never_seen",
+    eventCreated: 1700000000,
+  });
+  await t.mutation(api.private.handleCustomerCreated, {
+    stripeCustomerId: "cus_never_seen",
+    eventCreated: 1699990000,
+  });
+  expect(
+    await t.query(api.public.getCustomer, {
+      stripeCustomerId: "cus_never_seen",
+    }),
+  ).toBeNull();
+  vi.useRealTimers();
+});
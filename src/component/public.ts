@@ -1,7 +1,19 @@
+import {
+  paginationOptsValidator,
+  paginationResultValidator,
+  type FilterBuilder,
+  type GenericTableInfo,
+} from "convex/server";
 import { v } from "convex/values";
 import { action, mutation, query } from "./_generated/server.js";
 import { api } from "./_generated/api.js";
 import schema from "./schema.js";
+import {
+  getFailedWebhookEvents,
+  isReplayableWebhookEvent,
+  requeueWebhookEvent,
+} from "./private.js";
+import { DEFAULT_EVENT_TYPES } from "./webhooks.js";
 import StripeSDK from "stripe";
 
 // ============================================================================
@@ -11,8 +23,30 @@ import StripeSDK from "stripe";
 // Reusable validators that omit system fields (_id, _creationTime)
 const customerValidator = schema.tables.customers.validator;
 const subscriptionValidator = schema.tables.subscriptions.validator;
+const subscriptionItemValidator = schema.tables.subscription_items.validator;
 const paymentValidator = schema.tables.payments.validator;
+const checkoutSessionValidator = schema.tables.checkout_sessions.validator;
 const invoiceValidator = schema.tables.invoices.validator;
+const invoiceLineItemValidator = schema.tables.invoice_line_items.validator;
+const refundValidator = schema.tables.refunds.validator;
+const disputeValidator = schema.tables.disputes.validator;
+const paymentMethodValidator = schema.tables.payment_methods.validator;
+const couponValidator = schema.tables.coupons.validator;
+const promotionCodeValidator = schema.tables.promotion_codes.validator;
+const discountValidator = schema.tables.discounts.validator;
+const productValidator = schema.tables.products.validator;
+const priceValidator = schema.tables.prices.validator;
+const webhookEventValidator = schema.tables.webhook_events.validator;
+const webhookHandlerRunValidator = schema.tables.webhook_handler_runs.validator;
+
+/**
+ * Filter that drops test mode rows unless `includeTestData` is set.
+ * Rows synced before modes were tracked have no `livemode` and are kept.
+ */
+function liveModeFilter(includeTestData: boolean | undefined) {
+  return (q: FilterBuilder<GenericTableInfo>) =>
+    q.or(includeTestData ?? false, q.neq(q.field("livemode"), false));
+}
 
 // ============================================================================
 // PUBLIC QUERIES
@@ -20,9 +54,13 @@ const invoiceValidator = schema.tables.invoices.validator;
 
 /**
  * Get a customer by their Stripe customer ID.
+ * Customers deleted in Stripe are not returned.
  */
 export const getCustomer = query({
-  args: { stripeCustomerId: v.string() },
+  args: {
+    stripeCustomerId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
   returns: v.union(customerValidator, v.null()),
   handler: async (ctx, args) => {
     const customer = await ctx.db
@@ -30,6 +68,8 @@ export const getCustomer = query({
       .withIndex("by_stripe_customer_id", (q) =>
         q.eq("stripeCustomerId", args.stripeCustomerId),
       )
+      .filter(liveModeFilter(args.includeTestData))
+      .filter((q) => q.neq(q.field("deleted"), true))
       .unique();
     if (!customer) return null;
     const { _id, _creationTime, ...data } = customer;
@@ -41,7 +81,10 @@ export const getCustomer = query({
  * Get a subscription by its Stripe subscription ID.
  */
 export const getSubscription = query({
-  args: { stripeSubscriptionId: v.string() },
+  args: {
+    stripeSubscriptionId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
   returns: v.union(subscriptionValidator, v.null()),
   handler: async (ctx, args) => {
     const subscription = await ctx.db
@@ -49,6 +92,7 @@ export const getSubscription = query({
       .withIndex("by_stripe_subscription_id", (q) =>
         q.eq("stripeSubscriptionId", args.stripeSubscriptionId),
       )
+      .filter(liveModeFilter(args.includeTestData))
       .unique();
     if (!subscription) return null;
     const { _id, _creationTime, ...data } = subscription;
@@ -60,7 +104,10 @@ export const getSubscription = query({
  * List all subscriptions for a customer.
  */
 export const listSubscriptions = query({
-  args: { stripeCustomerId: v.string() },
+  args: {
+    stripeCustomerId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
   returns: v.array(subscriptionValidator),
   handler: async (ctx, args) => {
     const subscriptions = await ctx.db
@@ -68,22 +115,45 @@ export const listSubscriptions = query({
       .withIndex("by_stripe_customer_id", (q) =>
         q.eq("stripeCustomerId", args.stripeCustomerId),
       )
+      .filter(liveModeFilter(args.includeTestData))
       .collect();
     return subscriptions.map(({ _id, _creationTime, ...data }) => data);
   },
 });
 
+/**
+ * List the items of a subscription, one per price.
+ */
+export const listSubscriptionItems = query({
+  args: {
+    stripeSubscriptionId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.array(subscriptionItemValidator),
+  handler: async (ctx, args) => {
+    const items = await ctx.db
+      .query("subscription_items")
+      .withIndex("by_stripe_subscription_id", (q) =>
+        q.eq("stripeSubscriptionId", args.stripeSubscriptionId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .collect();
+    return items.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
 /**
  * Get a subscription by organization ID.
  * Useful for looking up subscriptions by custom orgId.
  */
 export const getSubscriptionByOrgId = query({
-  args: { orgId: v.string() },
+  args: { orgId: v.string(), includeTestData: v.optional(v.boolean()) },
   returns: v.union(subscriptionValidator, v.null()),
   handler: async (ctx, args) => {
     const subscription = await ctx.db
       .query("subscriptions")
       .withIndex("by_org_id", (q) => q.eq("orgId", args.orgId))
+      .filter(liveModeFilter(args.includeTestData))
       .first();
     if (!subscription) return null;
     const { _id, _creationTime, ...data } = subscription;
@@ -96,22 +166,50 @@ export const getSubscriptionByOrgId = query({
  * Useful for looking up subscriptions by custom userId.
  */
 export const listSubscriptionsByUserId = query({
-  args: { userId: v.string() },
+  args: { userId: v.string(), includeTestData: v.optional(v.boolean()) },
   returns: v.array(subscriptionValidator),
   handler: async (ctx, args) => {
     const subscriptions = await ctx.db
       .query("subscriptions")
       .withIndex("by_user_id", (q) => q.eq("userId", args.userId))
+      .filter(liveModeFilter(args.includeTestData))
       .collect();
     return subscriptions.map(({ _id, _creationTime, ...data }) => data);
   },
 });
 
+/**
+ * Get a checkout session by its Stripe checkout session ID.
+ * Sessions created through the client are stored as `open` right away.
+ */
+export const getCheckoutSession = query({
+  args: {
+    stripeCheckoutSessionId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.union(checkoutSessionValidator, v.null()),
+  handler: async (ctx, args) => {
+    const session = await ctx.db
+      .query("checkout_sessions")
+      .withIndex("by_stripe_checkout_session_id", (q) =>
+        q.eq("stripeCheckoutSessionId", args.stripeCheckoutSessionId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .unique();
+    if (!session) return null;
+    const { _id, _creationTime, ...data } = session;
+    return data;
+  },
+});
+
 /**
  * Get a payment by its Stripe payment intent ID.
  */
 export const getPayment = query({
-  args: { stripePaymentIntentId: v.string() },
+  args: {
+    stripePaymentIntentId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
   returns: v.union(paymentValidator, v.null()),
   handler: async (ctx, args) => {
     const payment = await ctx.db
@@ -119,6 +217,7 @@ export const getPayment = query({
       .withIndex("by_stripe_payment_intent_id", (q) =>
         q.eq("stripePaymentIntentId", args.stripePaymentIntentId),
       )
+      .filter(liveModeFilter(args.includeTestData))
       .unique();
     if (!payment) return null;
     const { _id, _creationTime, ...data } = payment;
@@ -130,7 +229,10 @@ export const getPayment = query({
  * List payments for a customer.
  */
 export const listPayments = query({
-  args: { stripeCustomerId: v.string() },
+  args: {
+    stripeCustomerId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
   returns: v.array(paymentValidator),
   handler: async (ctx, args) => {
     const payments = await ctx.db
@@ -138,6 +240,7 @@ export const listPayments = query({
       .withIndex("by_stripe_customer_id", (q) =>
         q.eq("stripeCustomerId", args.stripeCustomerId),
       )
+      .filter(liveModeFilter(args.includeTestData))
       .collect();
     return payments.map(({ _id, _creationTime, ...data }) => data);
   },
@@ -147,12 +250,13 @@ export const listPayments = query({
  * List payments for a user ID.
  */
 export const listPaymentsByUserId = query({
-  args: { userId: v.string() },
+  args: { userId: v.string(), includeTestData: v.optional(v.boolean()) },
   returns: v.array(paymentValidator),
   handler: async (ctx, args) => {
     const payments = await ctx.db
       .query("payments")
       .withIndex("by_user_id", (q) => q.eq("userId", args.userId))
+      .filter(liveModeFilter(args.includeTestData))
       .collect();
     return payments.map(({ _id, _creationTime, ...data }) => data);
   },
@@ -162,12 +266,13 @@ export const listPaymentsByUserId = query({
  * List payments for an organization ID.
  */
 export const listPaymentsByOrgId = query({
-  args: { orgId: v.string() },
+  args: { orgId: v.string(), includeTestData: v.optional(v.boolean()) },
   returns: v.array(paymentValidator),
   handler: async (ctx, args) => {
     const payments = await ctx.db
       .query("payments")
       .withIndex("by_org_id", (q) => q.eq("orgId", args.orgId))
+      .filter(liveModeFilter(args.includeTestData))
       .collect();
     return payments.map(({ _id, _creationTime, ...data }) => data);
   },
@@ -177,7 +282,10 @@ export const listPaymentsByOrgId = query({
  * List invoices for a customer.
  */
 export const listInvoices = query({
-  args: { stripeCustomerId: v.string() },
+  args: {
+    stripeCustomerId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
   returns: v.array(invoiceValidator),
   handler: async (ctx, args) => {
     const invoices = await ctx.db
@@ -185,21 +293,44 @@ export const listInvoices = query({
       .withIndex("by_stripe_customer_id", (q) =>
         q.eq("stripeCustomerId", args.stripeCustomerId),
       )
+      .filter(liveModeFilter(args.includeTestData))
       .collect();
     return invoices.map(({ _id, _creationTime, ...data }) => data);
   },
 });
 
+/**
+ * List the line items of an invoice.
+ */
+export const listInvoiceLineItems = query({
+  args: {
+    stripeInvoiceId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.array(invoiceLineItemValidator),
+  handler: async (ctx, args) => {
+    const lines = await ctx.db
+      .query("invoice_line_items")
+      .withIndex("by_stripe_invoice_id", (q) =>
+        q.eq("stripeInvoiceId", args.stripeInvoiceId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .collect();
+    return lines.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
 /**
  * List invoices for an organization ID.
  */
 export const listInvoicesByOrgId = query({
-  args: { orgId: v.string() },
+  args: { orgId: v.string(), includeTestData: v.optional(v.boolean()) },
   returns: v.array(invoiceValidator),
   handler: async (ctx, args) => {
     const invoices = await ctx.db
       .query("invoices")
       .withIndex("by_org_id", (q) => q.eq("orgId", args.orgId))
+      .filter(liveModeFilter(args.includeTestData))
       .collect();
     return invoices.map(({ _id, _creationTime, ...data }) => data);
   },
@@ -209,17 +340,662 @@ export const listInvoicesByOrgId = query({
  * List invoices for a user ID.
  */
 export const listInvoicesByUserId = query({
-  args: { userId: v.string() },
+  args: { userId: v.string(), includeTestData: v.optional(v.boolean()) },
   returns: v.array(invoiceValidator),
   handler: async (ctx, args) => {
     const invoices = await ctx.db
       .query("invoices")
       .withIndex("by_user_id", (q) => q.eq("userId", args.userId))
+      .filter(liveModeFilter(args.includeTestData))
       .collect();
     return invoices.map(({ _id, _creationTime, ...data }) => data);
   },
 });
 
+/**
+ * List customers for a Stripe Connect account.
+ */
+export const listCustomersByAccountId = query({
+  args: {
+    stripeAccountId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.array(customerValidator),
+  handler: async (ctx, args) => {
+    const customers = await ctx.db
+      .query("customers")
+      .withIndex("by_stripe_account_id", (q) =>
+        q.eq("stripeAccountId", args.stripeAccountId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .filter((q) => q.neq(q.field("deleted"), true))
+      .collect();
+    return customers.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * List subscriptions for a Stripe Connect account.
+ */
+export const listSubscriptionsByAccountId = query({
+  args: {
+    stripeAccountId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.array(subscriptionValidator),
+  handler: async (ctx, args) => {
+    const subscriptions = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_stripe_account_id", (q) =>
+        q.eq("stripeAccountId", args.stripeAccountId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .collect();
+    return subscriptions.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * List payments for a Stripe Connect account.
+ */
+export const listPaymentsByAccountId = query({
+  args: {
+    stripeAccountId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.array(paymentValidator),
+  handler: async (ctx, args) => {
+    const payments = await ctx.db
+      .query("payments")
+      .withIndex("by_stripe_account_id", (q) =>
+        q.eq("stripeAccountId", args.stripeAccountId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .collect();
+    return payments.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * List invoices for a Stripe Connect account.
+ */
+export const listInvoicesByAccountId = query({
+  args: {
+    stripeAccountId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.array(invoiceValidator),
+  handler: async (ctx, args) => {
+    const invoices = await ctx.db
+      .query("invoices")
+      .withIndex("by_stripe_account_id", (q) =>
+        q.eq("stripeAccountId", args.stripeAccountId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .collect();
+    return invoices.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * List the refunds of a payment.
+ */
+export const listRefunds = query({
+  args: {
+    stripePaymentIntentId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.array(refundValidator),
+  handler: async (ctx, args) => {
+    const refunds = await ctx.db
+      .query("refunds")
+      .withIndex("by_stripe_payment_intent_id", (q) =>
+        q.eq("stripePaymentIntentId", args.stripePaymentIntentId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .collect();
+    return refunds.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * List refunds for a user ID.
+ */
+export const listRefundsByUserId = query({
+  args: { userId: v.string(), includeTestData: v.optional(v.boolean()) },
+  returns: v.array(refundValidator),
+  handler: async (ctx, args) => {
+    const refunds = await ctx.db
+      .query("refunds")
+      .withIndex("by_user_id", (q) => q.eq("userId", args.userId))
+      .filter(liveModeFilter(args.includeTestData))
+      .collect();
+    return refunds.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * List the disputes of a payment.
+ */
+export const listDisputes = query({
+  args: {
+    stripePaymentIntentId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.array(disputeValidator),
+  handler: async (ctx, args) => {
+    const disputes = await ctx.db
+      .query("disputes")
+      .withIndex("by_stripe_payment_intent_id", (q) =>
+        q.eq("stripePaymentIntentId", args.stripePaymentIntentId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .collect();
+    return disputes.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * List disputes for a user ID.
+ */
+export const listDisputesByUserId = query({
+  args: { userId: v.string(), includeTestData: v.optional(v.boolean()) },
+  returns: v.array(disputeValidator),
+  handler: async (ctx, args) => {
+    const disputes = await ctx.db
+      .query("disputes")
+      .withIndex("by_user_id", (q) => q.eq("userId", args.userId))
+      .filter(liveModeFilter(args.includeTestData))
+      .collect();
+    return disputes.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * List disputes for an organization ID.
+ */
+export const listDisputesByOrgId = query({
+  args: { orgId: v.string(), includeTestData: v.optional(v.boolean()) },
+  returns: v.array(disputeValidator),
+  handler: async (ctx, args) => {
+    const disputes = await ctx.db
+      .query("disputes")
+      .withIndex("by_org_id", (q) => q.eq("orgId", args.orgId))
+      .filter(liveModeFilter(args.includeTestData))
+      .collect();
+    return disputes.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * List the payment methods saved to a customer.
+ */
+export const listPaymentMethods = query({
+  args: {
+    stripeCustomerId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.array(paymentMethodValidator),
+  handler: async (ctx, args) => {
+    const paymentMethods = await ctx.db
+      .query("payment_methods")
+      .withIndex("by_stripe_customer_id", (q) =>
+        q.eq("stripeCustomerId", args.stripeCustomerId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .filter((q) => q.neq(q.field("detached"), true))
+      .collect();
+    return paymentMethods.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * Get a customer's default payment method, as set in their invoice settings.
+ */
+export const getDefaultPaymentMethod = query({
+  args: {
+    stripeCustomerId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.union(paymentMethodValidator, v.null()),
+  handler: async (ctx, args) => {
+    const customer = await ctx.db
+      .query("customers")
+      .withIndex("by_stripe_customer_id", (q) =>
+        q.eq("stripeCustomerId", args.stripeCustomerId),
+      )
+      .unique();
+    if (customer?.deleted) return null;
+    const defaultPaymentMethodId = customer?.defaultPaymentMethodId;
+    if (!defaultPaymentMethodId) return null;
+
+    const paymentMethod = await ctx.db
+      .query("payment_methods")
+      .withIndex("by_stripe_payment_method_id", (q) =>
+        q.eq("stripePaymentMethodId", defaultPaymentMethodId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .filter((q) => q.neq(q.field("detached"), true))
+      .unique();
+    if (!paymentMethod) return null;
+    const { _id, _creationTime, ...data } = paymentMethod;
+    return data;
+  },
+});
+
+/**
+ * Get a product by its Stripe product ID.
+ */
+export const getProduct = query({
+  args: {
+    stripeProductId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.union(productValidator, v.null()),
+  handler: async (ctx, args) => {
+    const product = await ctx.db
+      .query("products")
+      .withIndex("by_stripe_product_id", (q) =>
+        q.eq("stripeProductId", args.stripeProductId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .filter((q) => q.neq(q.field("deleted"), true))
+      .unique();
+    if (!product) return null;
+    const { _id, _creationTime, ...data } = product;
+    return data;
+  },
+});
+
+/**
+ * List active products.
+ * Defaults to the platform account; pass `stripeAccountId` for a connected
+ * account's catalog.
+ */
+export const listActiveProducts = query({
+  args: {
+    stripeAccountId: v.optional(v.string()),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.array(productValidator),
+  handler: async (ctx, args) => {
+    const products = await ctx.db
+      .query("products")
+      .withIndex("by_active", (q) => q.eq("active", true))
+      .filter((q) => q.eq(q.field("stripeAccountId"), args.stripeAccountId))
+      .filter(liveModeFilter(args.includeTestData))
+      .filter((q) => q.neq(q.field("deleted"), true))
+      .collect();
+    return products.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * Get a price by its Stripe price ID.
+ */
+export const getPrice = query({
+  args: {
+    stripePriceId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.union(priceValidator, v.null()),
+  handler: async (ctx, args) => {
+    const price = await ctx.db
+      .query("prices")
+      .withIndex("by_stripe_price_id", (q) =>
+        q.eq("stripePriceId", args.stripePriceId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .filter((q) => q.neq(q.field("deleted"), true))
+      .unique();
+    if (!price) return null;
+    const { _id, _creationTime, ...data } = price;
+    return data;
+  },
+});
+
+/**
+ * List active prices, optionally for a single product.
+ * Defaults to the platform account; pass `stripeAccountId` for a connected
+ * account's catalog.
+ */
+export const listActivePrices = query({
+  args: {
+    stripeProductId: v.optional(v.string()),
+    stripeAccountId: v.optional(v.string()),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.array(priceValidator),
+  handler: async (ctx, args) => {
+    const stripeProductId = args.stripeProductId;
+    const query = stripeProductId
+      ? ctx.db
+          .query("prices")
+          .withIndex("by_stripe_product_id", (q) =>
+            q.eq("stripeProductId", stripeProductId),
+          )
+          .filter((q) => q.eq(q.field("active"), true))
+      : ctx.db
+          .query("prices")
+          .withIndex("by_active", (q) => q.eq("active", true));
+    const prices = await query
+      .filter((q) => q.eq(q.field("stripeAccountId"), args.stripeAccountId))
+      .filter(liveModeFilter(args.includeTestData))
+      .filter((q) => q.neq(q.field("deleted"), true))
+      .collect();
+    return prices.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * Get the active price with a lookup key.
+ * Defaults to the platform account; pass `stripeAccountId` for a connected
+ * account's catalog.
+ */
+export const getPriceByLookupKey = query({
+  args: {
+    lookupKey: v.string(),
+    stripeAccountId: v.optional(v.string()),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.union(priceValidator, v.null()),
+  handler: async (ctx, args) => {
+    const price = await ctx.db
+      .query("prices")
+      .withIndex("by_lookup_key", (q) => q.eq("lookupKey", args.lookupKey))
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("active"), true),
+          q.eq(q.field("stripeAccountId"), args.stripeAccountId),
+          q.neq(q.field("deleted"), true),
+        ),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .first();
+    if (!price) return null;
+    const { _id, _creationTime, ...data } = price;
+    return data;
+  },
+});
+
+/**
+ * Get a coupon by its Stripe coupon ID.
+ */
+export const getCoupon = query({
+  args: {
+    stripeCouponId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.union(couponValidator, v.null()),
+  handler: async (ctx, args) => {
+    const coupon = await ctx.db
+      .query("coupons")
+      .withIndex("by_stripe_coupon_id", (q) =>
+        q.eq("stripeCouponId", args.stripeCouponId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .filter((q) => q.neq(q.field("deleted"), true))
+      .unique();
+    if (!coupon) return null;
+    const { _id, _creationTime, ...data } = coupon;
+    return data;
+  },
+});
+
+/**
+ * Get a promotion code by the code customers enter.
+ * Prefers the active code when an inactive one shares its name.
+ */
+export const getPromotionCode = query({
+  args: {
+    code: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.union(promotionCodeValidator, v.null()),
+  handler: async (ctx, args) => {
+    const promotionCodes = await ctx.db
+      .query("promotion_codes")
+      .withIndex("by_code", (q) => q.eq("code", args.code))
+      .filter(liveModeFilter(args.includeTestData))
+      .collect();
+    const promotionCode =
+      promotionCodes.find(({ active }) => active) ?? promotionCodes[0];
+    if (!promotionCode) return null;
+    const { _id, _creationTime, ...data } = promotionCode;
+    return data;
+  },
+});
+
+/**
+ * List redemptions of a promotion code: one discount per customer,
+ * subscription or invoice it was applied to.
+ */
+export const listPromotionCodeRedemptions = query({
+  args: {
+    stripePromotionCodeId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.array(discountValidator),
+  handler: async (ctx, args) => {
+    const discounts = await ctx.db
+      .query("discounts")
+      .withIndex("by_stripe_promotion_code_id", (q) =>
+        q.eq("stripePromotionCodeId", args.stripePromotionCodeId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .collect();
+    return discounts.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * List redemptions of a coupon, directly or through any promotion code.
+ */
+export const listCouponRedemptions = query({
+  args: {
+    stripeCouponId: v.string(),
+    includeTestData: v.optional(v.boolean()),
+  },
+  returns: v.array(discountValidator),
+  handler: async (ctx, args) => {
+    const discounts = await ctx.db
+      .query("discounts")
+      .withIndex("by_stripe_coupon_id", (q) =>
+        q.eq("stripeCouponId", args.stripeCouponId),
+      )
+      .filter(liveModeFilter(args.includeTestData))
+      .collect();
+    return discounts.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * List webhook events whose default processing failed after all retries,
+ * or was abandoned mid-attempt (left "processing" by an attempt that died),
+ * in the order they were first received.
+ */
+export const listFailedWebhookEvents = query({
+  args: { limit: v.optional(v.number()) },
+  returns: v.array(webhookEventValidator),
+  handler: async (ctx, args) => {
+    const events = await getFailedWebhookEvents(ctx, args.limit ?? 100);
+    return events.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * Page through the webhook event audit log, newest first.
+ * Filter by event type, Stripe object ID and/or status.
+ */
+export const listWebhookEvents = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    type: v.optional(v.string()),
+    objectId: v.optional(v.string()),
+    status: v.optional(v.string()),
+  },
+  returns: paginationResultValidator(webhookEventValidator),
+  handler: async (ctx, args) => {
+    const { type, objectId, status } = args;
+
+    // Use the most selective index, then filter on the rest
+    const events =
+      objectId !== undefined
+        ? ctx.db
+            .query("webhook_events")
+            .withIndex("by_object_id", (q) => q.eq("objectId", objectId))
+        : type !== undefined
+          ? ctx.db
+              .query("webhook_events")
+              .withIndex("by_type", (q) => q.eq("type", type))
+          : status !== undefined
+            ? ctx.db
+                .query("webhook_events")
+                .withIndex("by_status", (q) => q.eq("status", status))
+            : ctx.db.query("webhook_events");
+
+    const result = await events
+      .order("desc")
+      .filter((q) =>
+        q.and(
+          type !== undefined ? q.eq(q.field("type"), type) : true,
+          status !== undefined ? q.eq(q.field("status"), status) : true,
+        ),
+      )
+      .paginate(args.paginationOpts);
+
+    return {
+      ...result,
+      page: result.page.map(({ _id, _creationTime, ...data }) => data),
+    };
+  },
+});
+
+/**
+ * List scheduled webhook handler runs that failed after all retries.
+ */
+export const listFailedWebhookHandlerRuns = query({
+  args: { limit: v.optional(v.number()) },
+  returns: v.array(webhookHandlerRunValidator),
+  handler: async (ctx, args) => {
+    const runs = await ctx.db
+      .query("webhook_handler_runs")
+      .withIndex("by_status", (q) => q.eq("status", "failed"))
+      .take(args.limit ?? 100);
+    return runs.map(({ _id, _creationTime, ...data }) => data);
+  },
+});
+
+/**
+ * Rolling windows webhook metrics are reported for.
+ */
+const WEBHOOK_HEALTH_WINDOWS = [
+  { name: "1h", ms: 60 * 60 * 1000 },
+  { name: "24h", ms: 24 * 60 * 60 * 1000 },
+  { name: "7d", ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+/**
+ * Report whether webhooks are flowing: the last event received per type,
+ * received/processed/failed counts over rolling windows (counted in 5 minute
+ * buckets), and the oldest event still waiting to be processed.
+ */
+export const getWebhookHealth = query({
+  args: {},
+  returns: v.object({
+    lastEventByType: v.array(
+      v.object({
+        type: v.string(),
+        stripeEventId: v.string(),
+        receivedAt: v.number(),
+      }),
+    ),
+    windows: v.array(
+      v.object({
+        window: v.string(),
+        received: v.number(),
+        processed: v.number(),
+        failed: v.number(),
+      }),
+    ),
+    oldestUnprocessedEvent: v.union(
+      v.object({
+        stripeEventId: v.string(),
+        type: v.string(),
+        status: v.string(),
+        receivedAt: v.number(),
+      }),
+      v.null(),
+    ),
+  }),
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    const types = await ctx.db.query("webhook_event_types").collect();
+    const lastEventByType = [];
+    for (const { type } of types) {
+      const last = await ctx.db
+        .query("webhook_events")
+        .withIndex("by_type", (q) => q.eq("type", type))
+        .order("desc")
+        .first();
+      if (last) {
+        lastEventByType.push({
+          type,
+          stripeEventId: last.stripeEventId,
+          receivedAt: last.receivedAt,
+        });
+      }
+    }
+    lastEventByType.sort((a, b) => b.receivedAt - a.receivedAt);
+
+    const longestWindowMs = Math.max(
+      ...WEBHOOK_HEALTH_WINDOWS.map(({ ms }) => ms),
+    );
+    const buckets = await ctx.db
+      .query("webhook_stats")
+      .withIndex("by_bucket_start_and_shard", (q) =>
+        q.gt("bucketStart", now - longestWindowMs),
+      )
+      .collect();
+    const windows = WEBHOOK_HEALTH_WINDOWS.map(({ name, ms }) => {
+      const inWindow = buckets.filter((b) => b.bucketStart > now - ms);
+      return {
+        window: name,
+        received: inWindow.reduce((sum, b) => sum + b.received, 0),
+        processed: inWindow.reduce((sum, b) => sum + b.processed, 0),
+        failed: inWindow.reduce((sum, b) => sum + b.failed, 0),
+      };
+    });
+
+    // Oldest first within each status, so the first of each is a candidate
+    const candidates = [];
+    for (const status of ["pending", "processing"]) {
+      const event = await ctx.db
+        .query("webhook_events")
+        .withIndex("by_status", (q) => q.eq("status", status))
+        .first();
+      if (event) {
+        candidates.push(event);
+      }
+    }
+    const oldest = candidates.sort((a, b) => a.receivedAt - b.receivedAt)[0];
+
+    return {
+      lastEventByType,
+      windows,
+      oldestUnprocessedEvent: oldest
+        ? {
+            stripeEventId: oldest.stripeEventId,
+            type: oldest.type,
+            status: oldest.status,
+            receivedAt: oldest.receivedAt,
+          }
+        : null,
+    };
+  },
+});
+
 // ============================================================================
 // PUBLIC MUTATIONS
 // ============================================================================
@@ -234,6 +1010,8 @@ export const createOrUpdateCustomer = mutation({
     email: v.optional(v.string()),
     name: v.optional(v.string()),
     metadata: v.optional(v.any()),
+    stripeAccountId: v.optional(v.string()),
+    livemode: v.optional(v.boolean()),
   },
   returns: v.string(),
   handler: async (ctx, args) => {
@@ -249,6 +1027,10 @@ export const createOrUpdateCustomer = mutation({
         email: args.email,
         name: args.name,
         metadata: args.metadata,
+        ...(args.stripeAccountId !== undefined && {
+          stripeAccountId: args.stripeAccountId,
+        }),
+        ...(args.livemode !== undefined && { livemode: args.livemode }),
       });
     } else {
       await ctx.db.insert("customers", {
@@ -256,6 +1038,8 @@ export const createOrUpdateCustomer = mutation({
         email: args.email,
         name: args.name,
         metadata: args.metadata,
+        stripeAccountId: args.stripeAccountId,
+        livemode: args.livemode,
       });
     }
     return args.stripeCustomerId;
@@ -303,37 +1087,186 @@ export const updateSubscriptionMetadata = mutation({
  * Update subscription quantity (for seat-based pricing).
  * This will update both Stripe and the local database.
  * STRIPE_SECRET_KEY must be provided as a parameter.
+ * Pass `stripeAccount` to update a subscription on a Stripe Connect account.
  */
 export const updateSubscriptionQuantity = action({
   args: {
     stripeSubscriptionId: v.string(),
     quantity: v.number(),
+    // The item to update, by ID or by price. Optional for single-item
+    // subscriptions.
+    stripeSubscriptionItemId: v.optional(v.string()),
+    priceId: v.optional(v.string()),
     apiKey: v.string(),
+    stripeAccount: v.optional(v.string()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
     const stripe = new StripeSDK(args.apiKey);
+    const requestOptions = args.stripeAccount
+      ? { stripeAccount: args.stripeAccount }
+      : undefined;
 
     // Get the subscription from Stripe to find the subscription item ID
     const subscription = await stripe.subscriptions.retrieve(
       args.stripeSubscriptionId,
+      undefined,
+      requestOptions,
     );
 
-    if (!subscription.items.data[0]) {
-      throw new Error("Subscription has no items");
+    // Payloads list at most 10 items
+    const items = subscription.items.has_more
+      ? await stripe.subscriptionItems
+          .list({ subscription: subscription.id, limit: 100 }, requestOptions)
+          .autoPagingToArray({ limit: 10000 })
+      : subscription.items.data;
+    let item: StripeSDK.SubscriptionItem | undefined;
+    if (args.stripeSubscriptionItemId) {
+      item = items.find(({ id }) => id === args.stripeSubscriptionItemId);
+    } else if (args.priceId) {
+      item = items.find(({ price }) => price.id === args.priceId);
+    } else if (items.length > 1) {
+      throw new Error(
+        "Subscription has several items, pass stripeSubscriptionItemId or priceId",
+      );
+    } else {
+      item = items[0];
+    }
+
+    if (!item) {
+      throw new Error(
+        args.stripeSubscriptionItemId || args.priceId
+          ? `Subscription has no item ${args.stripeSubscriptionItemId ?? `with price ${args.priceId}`}`
+          : "Subscription has no items",
+      );
     }
 
     // Update the subscription item quantity in Stripe
-    await stripe.subscriptionItems.update(subscription.items.data[0].id, {
-      quantity: args.quantity,
-    });
+    await stripe.subscriptionItems.update(
+      item.id,
+      { quantity: args.quantity },
+      requestOptions,
+    );
 
     // Update our local database via mutation
     await ctx.runMutation(api.private.updateSubscriptionQuantityInternal, {
       stripeSubscriptionId: args.stripeSubscriptionId,
       quantity: args.quantity,
+      stripeSubscriptionItemId: item.id,
+      priceId: item.price.id,
     });
 
     return null;
   },
 });
+
+/**
+ * Create or update the Stripe webhook endpoint for `url`.
+ * Enabled events are the default-handled types plus `events`, minus
+ * `excludedEvents`. The signing secret Stripe returns on creation is stored
+ * and accepted by the webhook route.
+ */
+export const createOrUpdateWebhookEndpoint = action({
+  args: {
+    url: v.string(),
+    events: v.optional(v.array(v.string())),
+    excludedEvents: v.optional(v.array(v.string())),
+    apiKey: v.string(),
+  },
+  returns: v.object({
+    stripeWebhookEndpointId: v.string(),
+    url: v.string(),
+    enabledEvents: v.array(v.string()),
+    created: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    const stripe = new StripeSDK(args.apiKey);
+    const excluded = new Set(args.excludedEvents ?? []);
+    const enabledEvents = [
+      ...new Set([...DEFAULT_EVENT_TYPES, ...(args.events ?? [])]),
+    ].filter((type) => !excluded.has(type));
+
+    if (enabledEvents.length === 0) {
+      throw new Error("No webhook events to enable");
+    }
+
+    // Stripe allows at most 16 endpoints per account, so one page covers them
+    const endpoints = await stripe.webhookEndpoints.list({ limit: 100 });
+    const existing = endpoints.data.find(
+      (endpoint) => endpoint.url === args.url,
+    );
+    const params = {
+      enabled_events:
+        enabledEvents as StripeSDK.WebhookEndpointCreateParams.EnabledEvent[],
+    };
+
+    const endpoint = existing
+      ? await stripe.webhookEndpoints.update(existing.id, params)
+      : await stripe.webhookEndpoints.create({ ...params, url: args.url });
+
+    await ctx.runMutation(api.private.storeWebhookEndpoint, {
+      stripeWebhookEndpointId: endpoint.id,
+      url: endpoint.url,
+      enabledEvents: endpoint.enabled_events,
+      secret: endpoint.secret,
+      livemode: endpoint.livemode,
+    });
+
+    return {
+      stripeWebhookEndpointId: endpoint.id,
+      url: endpoint.url,
+      enabledEvents: endpoint.enabled_events,
+      created: !existing,
+    };
+  },
+});
+
+/**
+ * Replay a recorded webhook event by running its default processing again.
+ * Returns false if the event is unknown, already queued or "skipped".
+ * Without STRIPE_SECRET_KEY the event is synced from its payload alone.
+ */
+export const replayWebhookEvent = mutation({
+  args: {
+    stripeEventId: v.string(),
+    apiKey: v.optional(v.string()),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const event = await ctx.db
+      .query("webhook_events")
+      .withIndex("by_stripe_event_id", (q) =>
+        q.eq("stripeEventId", args.stripeEventId),
+      )
+      .unique();
+
+    if (!event || !isReplayableWebhookEvent(event)) {
+      return false;
+    }
+
+    await requeueWebhookEvent(ctx, event, args.apiKey);
+    return true;
+  },
+});
+
+/**
+ * Replay up to `limit` failed or abandoned webhook events (default 100).
+ * Returns the number of events queued.
+ * Without STRIPE_SECRET_KEY the events are synced from their payloads alone.
+ */
+export const replayFailedWebhookEvents = mutation({
+  args: {
+    limit: v.optional(v.number()),
+    apiKey: v.optional(v.string()),
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    const events = await getFailedWebhookEvents(ctx, args.limit ?? 100);
+
+    for (const event of events) {
+      await requeueWebhookEvent(ctx, event, args.apiKey);
+    }
+
+    return events.length;
+  },
+});
@@ -1,70 +1,490 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// Paused payment collection of a subscription
+export const pauseCollectionValidator = v.object({
+  behavior: v.string(), // "keep_as_draft" | "mark_uncollectible" | "void"
+  resumesAt: v.optional(v.number()),
+});
+
+// A discount applied to a subscription or invoice. Coupon details are filled
+// in once the discount or its coupon has been synced.
+export const appliedDiscountValidator = v.object({
+  stripeDiscountId: v.string(),
+  stripeCouponId: v.optional(v.string()),
+  stripePromotionCodeId: v.optional(v.string()),
+  percentOff: v.optional(v.number()),
+  amountOff: v.optional(v.number()),
+  currency: v.optional(v.string()),
+  // When the discount stops applying (unset for "once" and "forever" coupons)
+  end: v.optional(v.number()),
+});
+
 export default defineSchema({
   customers: defineTable({
     stripeCustomerId: v.string(),
     email: v.optional(v.string()),
     name: v.optional(v.string()),
     metadata: v.optional(v.any()),
+    // From the customer's invoice settings
+    defaultPaymentMethodId: v.optional(v.string()),
+    // Set once the customer is deleted in Stripe. Deleted customers are kept
+    // for history but left out of lookups.
+    deleted: v.optional(v.boolean()),
+    // Stripe `created` timestamp of the last webhook event applied to this row
+    lastEventCreated: v.optional(v.number()),
+    // Stripe Connect account the object belongs to (unset for the platform)
+    stripeAccountId: v.optional(v.string()),
+    // Whether the object is from live mode (unset for rows synced before
+    // modes were tracked)
+    livemode: v.optional(v.boolean()),
   })
     .index("by_stripe_customer_id", ["stripeCustomerId"])
-    .index("by_email", ["email"]),
+    .index("by_email", ["email"])
+    .index("by_stripe_account_id", ["stripeAccountId"]),
   subscriptions: defineTable({
     stripeSubscriptionId: v.string(),
     stripeCustomerId: v.string(),
     status: v.string(),
+    currentPeriodStart: v.optional(v.number()),
     currentPeriodEnd: v.number(),
     cancelAtPeriodEnd: v.boolean(),
+    trialStart: v.optional(v.number()),
+    trialEnd: v.optional(v.number()),
+    // When the subscription is scheduled to be canceled
+    cancelAt: v.optional(v.number()),
+    // When cancellation was requested, and when the subscription ended
+    canceledAt: v.optional(v.number()),
+    endedAt: v.optional(v.number()),
+    // Set while payment collection is paused
+    pauseCollection: v.optional(pauseCollectionValidator),
+    collectionMethod: v.optional(v.string()), // "charge_automatically" | "send_invoice"
+    // Quantity and price of the first item. See `subscription_items` for
+    // subscriptions with several items.
     quantity: v.optional(v.number()),
     priceId: v.string(),
+    discounts: v.optional(v.array(appliedDiscountValidator)),
     metadata: v.optional(v.any()),
     // Custom lookup fields for efficient querying
     orgId: v.optional(v.string()),
     userId: v.optional(v.string()),
+    // Stripe `created` timestamp of the last webhook event applied to this row
+    lastEventCreated: v.optional(v.number()),
+    // Stripe Connect account the object belongs to (unset for the platform)
+    stripeAccountId: v.optional(v.string()),
+    // Whether the object is from live mode (unset for rows synced before
+    // modes were tracked)
+    livemode: v.optional(v.boolean()),
   })
     .index("by_stripe_subscription_id", ["stripeSubscriptionId"])
     .index("by_stripe_customer_id", ["stripeCustomerId"])
     .index("by_org_id", ["orgId"])
-    .index("by_user_id", ["userId"]),
+    .index("by_user_id", ["userId"])
+    .index("by_stripe_account_id", ["stripeAccountId"]),
+  // One row per item of a subscription (price, quantity and billing period)
+  subscription_items: defineTable({
+    stripeSubscriptionItemId: v.string(),
+    stripeSubscriptionId: v.string(),
+    priceId: v.string(),
+    stripeProductId: v.optional(v.string()),
+    quantity: v.optional(v.number()),
+    currentPeriodStart: v.number(),
+    currentPeriodEnd: v.number(),
+    metadata: v.optional(v.any()),
+    // Stripe Connect account the object belongs to (unset for the platform)
+    stripeAccountId: v.optional(v.string()),
+    // Whether the object is from live mode (unset for rows synced before
+    // modes were tracked)
+    livemode: v.optional(v.boolean()),
+  })
+    .index("by_stripe_subscription_item_id", ["stripeSubscriptionItemId"])
+    .index("by_stripe_subscription_id", ["stripeSubscriptionId"]),
   checkout_sessions: defineTable({
     stripeCheckoutSessionId: v.string(),
     stripeCustomerId: v.optional(v.string()),
-    status: v.string(),
+    status: v.string(), // "open" | "complete" | "expired"
+    // "paid" | "unpaid" | "no_payment_required" | "failed". Delayed payment
+    // methods stay "unpaid" until the async payment succeeds or fails.
+    paymentStatus: v.optional(v.string()),
     mode: v.string(),
+    amountTotal: v.optional(v.number()),
+    currency: v.optional(v.string()),
+    // Checkout page URL, while the session is open
+    url: v.optional(v.string()),
+    expiresAt: v.optional(v.number()),
     metadata: v.optional(v.any()),
-  }).index("by_stripe_checkout_session_id", ["stripeCheckoutSessionId"]),
+    // Custom lookup fields for efficient querying
+    orgId: v.optional(v.string()),
+    userId: v.optional(v.string()),
+    // Stripe `created` timestamp of the last webhook event applied to this row
+    lastEventCreated: v.optional(v.number()),
+    // Stripe Connect account the object belongs to (unset for the platform)
+    stripeAccountId: v.optional(v.string()),
+    // Whether the object is from live mode (unset for rows synced before
+    // modes were tracked)
+    livemode: v.optional(v.boolean()),
+  })
+    .index("by_stripe_checkout_session_id", ["stripeCheckoutSessionId"])
+    .index("by_org_id", ["orgId"])
+    .index("by_user_id", ["userId"])
+    .index("by_stripe_account_id", ["stripeAccountId"]),
   payments: defineTable({
     stripePaymentIntentId: v.string(),
     stripeCustomerId: v.optional(v.string()),
     amount: v.number(),
     currency: v.string(),
+    // Payment intent status, or "refunded" | "partially_refunded"
     status: v.string(),
+    // Total refunded so far (unset if never refunded)
+    amountRefunded: v.optional(v.number()),
     created: v.number(),
     metadata: v.optional(v.any()),
     // Custom lookup fields for efficient querying
     orgId: v.optional(v.string()),
     userId: v.optional(v.string()),
+    // Stripe `created` timestamp of the last refund event applied to this row
+    lastEventCreated: v.optional(v.number()),
+    // Stripe Connect account the object belongs to (unset for the platform)
+    stripeAccountId: v.optional(v.string()),
+    // Whether the object is from live mode (unset for rows synced before
+    // modes were tracked)
+    livemode: v.optional(v.boolean()),
   })
     .index("by_stripe_payment_intent_id", ["stripePaymentIntentId"])
     .index("by_stripe_customer_id", ["stripeCustomerId"])
     .index("by_org_id", ["orgId"])
+    .index("by_user_id", ["userId"])
+    .index("by_stripe_account_id", ["stripeAccountId"]),
+  refunds: defineTable({
+    stripeRefundId: v.string(),
+    stripePaymentIntentId: v.optional(v.string()),
+    stripeChargeId: v.optional(v.string()),
+    amount: v.number(),
+    currency: v.string(),
+    // "pending" | "requires_action" | "succeeded" | "failed" | "canceled"
+    status: v.string(),
+    reason: v.optional(v.string()),
+    created: v.number(),
+    metadata: v.optional(v.any()),
+    // Copied from the refunded payment
+    orgId: v.optional(v.string()),
+    userId: v.optional(v.string()),
+    // Stripe `created` timestamp of the last webhook event applied to this row
+    lastEventCreated: v.optional(v.number()),
+    // Stripe Connect account the object belongs to (unset for the platform)
+    stripeAccountId: v.optional(v.string()),
+    // Whether the object is from live mode (unset for rows synced before
+    // modes were tracked)
+    livemode: v.optional(v.boolean()),
+  })
+    .index("by_stripe_refund_id", ["stripeRefundId"])
+    .index("by_stripe_payment_intent_id", ["stripePaymentIntentId"])
+    .index("by_org_id", ["orgId"])
+    .index("by_user_id", ["userId"]),
+  disputes: defineTable({
+    stripeDisputeId: v.string(),
+    stripeChargeId: v.string(),
+    stripePaymentIntentId: v.optional(v.string()),
+    amount: v.number(),
+    currency: v.string(),
+    reason: v.string(), // e.g. "fraudulent" | "product_not_received" | ...
+    // "warning_needs_response" | "warning_under_review" | "warning_closed" |
+    // "needs_response" | "under_review" | "won" | "lost"
+    status: v.string(),
+    // Deadline for submitting evidence
+    evidenceDueBy: v.optional(v.number()),
+    created: v.number(),
+    metadata: v.optional(v.any()),
+    // Copied from the disputed payment
+    orgId: v.optional(v.string()),
+    userId: v.optional(v.string()),
+    // Stripe `created` timestamp of the last webhook event applied to this row
+    lastEventCreated: v.optional(v.number()),
+    // Stripe Connect account the object belongs to (unset for the platform)
+    stripeAccountId: v.optional(v.string()),
+    // Whether the object is from live mode (unset for rows synced before
+    // modes were tracked)
+    livemode: v.optional(v.boolean()),
+  })
+    .index("by_stripe_dispute_id", ["stripeDisputeId"])
+    .index("by_stripe_payment_intent_id", ["stripePaymentIntentId"])
+    .index("by_org_id", ["orgId"])
     .index("by_user_id", ["userId"]),
   invoices: defineTable({
     stripeInvoiceId: v.string(),
     stripeCustomerId: v.string(),
     stripeSubscriptionId: v.optional(v.string()),
-    status: v.string(),
+    status: v.string(), // "draft" | "open" | "paid" | "void" | "uncollectible"
     amountDue: v.number(),
     amountPaid: v.number(),
     created: v.number(),
+    // Invoice number, assigned when the invoice is finalized
+    number: v.optional(v.string()),
+    currency: v.optional(v.string()),
+    periodStart: v.optional(v.number()),
+    periodEnd: v.optional(v.number()),
+    dueDate: v.optional(v.number()),
+    // Customer-facing invoice page and PDF, available once finalized
+    hostedInvoiceUrl: v.optional(v.string()),
+    invoicePdf: v.optional(v.string()),
+    subtotal: v.optional(v.number()),
+    tax: v.optional(v.number()),
+    total: v.optional(v.number()),
+    discounts: v.optional(v.array(appliedDiscountValidator)),
     // Custom lookup fields for efficient querying
     orgId: v.optional(v.string()),
     userId: v.optional(v.string()),
+    // Stripe `created` timestamp of the last webhook event applied to this row
+    lastEventCreated: v.optional(v.number()),
+    // Stripe Connect account the object belongs to (unset for the platform)
+    stripeAccountId: v.optional(v.string()),
+    // Whether the object is from live mode (unset for rows synced before
+    // modes were tracked)
+    livemode: v.optional(v.boolean()),
   })
     .index("by_stripe_invoice_id", ["stripeInvoiceId"])
     .index("by_stripe_customer_id", ["stripeCustomerId"])
     .index("by_stripe_subscription_id", ["stripeSubscriptionId"])
     .index("by_org_id", ["orgId"])
-    .index("by_user_id", ["userId"]),
+    .index("by_user_id", ["userId"])
+    .index("by_stripe_account_id", ["stripeAccountId"]),
+  invoice_line_items: defineTable({
+    stripeInvoiceLineItemId: v.string(),
+    stripeInvoiceId: v.string(),
+    description: v.optional(v.string()),
+    amount: v.number(),
+    currency: v.string(),
+    quantity: v.optional(v.number()),
+    priceId: v.optional(v.string()),
+    stripeProductId: v.optional(v.string()),
+    stripeSubscriptionId: v.optional(v.string()),
+    stripeSubscriptionItemId: v.optional(v.string()),
+    proration: v.optional(v.boolean()),
+    periodStart: v.number(),
+    periodEnd: v.number(),
+    metadata: v.optional(v.any()),
+    // Stripe Connect account the object belongs to (unset for the platform)
+    stripeAccountId: v.optional(v.string()),
+    // Whether the object is from live mode (unset for rows synced before
+    // modes were tracked)
+    livemode: v.optional(v.boolean()),
+  })
+    .index("by_stripe_invoice_line_item_id", ["stripeInvoiceLineItemId"])
+    .index("by_stripe_invoice_id", ["stripeInvoiceId"]),
+  payment_methods: defineTable({
+    stripePaymentMethodId: v.string(),
+    stripeCustomerId: v.string(),
+    type: v.string(), // "card" | "us_bank_account" | "sepa_debit" | ...
+    // Card brand, e.g. "visa"
+    brand: v.optional(v.string()),
+    // Last four digits of the card or account number
+    last4: v.optional(v.string()),
+    expMonth: v.optional(v.number()),
+    expYear: v.optional(v.number()),
+    metadata: v.optional(v.any()),
+    // Set once the method is detached from the customer. The row is kept so
+    // older events delivered late cannot add it back.
+    detached: v.optional(v.boolean()),
+    // Stripe `created` timestamp of the last webhook event applied to this row
+    lastEventCreated: v.optional(v.number()),
+    // Stripe Connect account the object belongs to (unset for the platform)
+    stripeAccountId: v.optional(v.string()),
+    // Whether the object is from live mode (unset for rows synced before
+    // modes were tracked)
+    livemode: v.optional(v.boolean()),
+  })
+    .index("by_stripe_payment_method_id", ["stripePaymentMethodId"])
+    .index("by_stripe_customer_id", ["stripeCustomerId"]),
+  products: defineTable({
+    stripeProductId: v.string(),
+    name: v.string(),
+    description: v.optional(v.string()),
+    active: v.boolean(),
+    defaultPriceId: v.optional(v.string()),
+    metadata: v.optional(v.any()),
+    // Set once deleted in Stripe. The row is kept so older events delivered
+    // late cannot add it back.
+    deleted: v.optional(v.boolean()),
+    // Stripe `created` timestamp of the last webhook event applied to this row
+    lastEventCreated: v.optional(v.number()),
+    // Stripe Connect account the object belongs to (unset for the platform)
+    stripeAccountId: v.optional(v.string()),
+    // Whether the object is from live mode (unset for rows synced before
+    // modes were tracked)
+    livemode: v.optional(v.boolean()),
+  })
+    .index("by_stripe_product_id", ["stripeProductId"])
+    .index("by_active", ["active"])
+    .index("by_stripe_account_id", ["stripeAccountId"]),
+  prices: defineTable({
+    stripePriceId: v.string(),
+    stripeProductId: v.string(),
+    active: v.boolean(),
+    currency: v.string(),
+    // Unset for tiered prices, see `tiers`
+    unitAmount: v.optional(v.number()),
+    type: v.string(), // "one_time" | "recurring"
+    recurringInterval: v.optional(v.string()), // "day" | "week" | "month" | "year"
+    recurringIntervalCount: v.optional(v.number()),
+    billingScheme: v.string(), // "per_unit" | "tiered"
+    tiersMode: v.optional(v.string()), // "graduated" | "volume"
+    tiers: v.optional(
+      v.array(
+        v.object({
+          upTo: v.union(v.number(), v.null()), // null for the last tier
+          unitAmount: v.optional(v.number()),
+          flatAmount: v.optional(v.number()),
+        }),
+      ),
+    ),
+    lookupKey: v.optional(v.string()),
+    nickname: v.optional(v.string()),
+    metadata: v.optional(v.any()),
+    // Set once deleted in Stripe. The row is kept so older events delivered
+    // late cannot add it back.
+    deleted: v.optional(v.boolean()),
+    // Stripe `created` timestamp of the last webhook event applied to this row
+    lastEventCreated: v.optional(v.number()),
+    // Stripe Connect account the object belongs to (unset for the platform)
+    stripeAccountId: v.optional(v.string()),
+    // Whether the object is from live mode (unset for rows synced before
+    // modes were tracked)
+    livemode: v.optional(v.boolean()),
+  })
+    .index("by_stripe_price_id", ["stripePriceId"])
+    .index("by_stripe_product_id", ["stripeProductId"])
+    .index("by_lookup_key", ["lookupKey"])
+    .index("by_active", ["active"])
+    .index("by_stripe_account_id", ["stripeAccountId"]),
+  coupons: defineTable({
+    stripeCouponId: v.string(),
+    name: v.optional(v.string()),
+    percentOff: v.optional(v.number()),
+    amountOff: v.optional(v.number()),
+    currency: v.optional(v.string()),
+    duration: v.string(), // "once" | "repeating" | "forever"
+    durationInMonths: v.optional(v.number()),
+    maxRedemptions: v.optional(v.number()),
+    timesRedeemed: v.number(),
+    redeemBy: v.optional(v.number()),
+    valid: v.boolean(),
+    metadata: v.optional(v.any()),
+    // Set once deleted in Stripe. The row is kept so older events delivered
+    // late cannot add it back, and so discounts can still show its terms.
+    deleted: v.optional(v.boolean()),
+    // Stripe `created` timestamp of the last webhook event applied to this row
+    lastEventCreated: v.optional(v.number()),
+    // Stripe Connect account the object belongs to (unset for the platform)
+    stripeAccountId: v.optional(v.string()),
+    // Whether the object is from live mode (unset for rows synced before
+    // modes were tracked)
+    livemode: v.optional(v.boolean()),
+  }).index("by_stripe_coupon_id", ["stripeCouponId"]),
+  promotion_codes: defineTable({
+    stripePromotionCodeId: v.string(),
+    code: v.string(),
+    stripeCouponId: v.string(),
+    active: v.boolean(),
+    // Customer the code is restricted to
+    stripeCustomerId: v.optional(v.string()),
+    maxRedemptions: v.optional(v.number()),
+    timesRedeemed: v.number(),
+    expiresAt: v.optional(v.number()),
+    metadata: v.optional(v.any()),
+    // Stripe `created` timestamp of the last webhook event applied to this row
+    lastEventCreated: v.optional(v.number()),
+    // Stripe Connect account the object belongs to (unset for the platform)
+    stripeAccountId: v.optional(v.string()),
+    // Whether the object is from live mode (unset for rows synced before
+    // modes were tracked)
+    livemode: v.optional(v.boolean()),
+  })
+    .index("by_stripe_promotion_code_id", ["stripePromotionCodeId"])
+    .index("by_code", ["code"]),
+  // Redemptions of coupons and promotion codes, from customer.discount events
+  discounts: defineTable({
+    stripeDiscountId: v.string(),
+    stripeCouponId: v.string(),
+    stripePromotionCodeId: v.optional(v.string()),
+    stripeCustomerId: v.optional(v.string()),
+    stripeSubscriptionId: v.optional(v.string()),
+    stripeInvoiceId: v.optional(v.string()),
+    percentOff: v.optional(v.number()),
+    amountOff: v.optional(v.number()),
+    currency: v.optional(v.string()),
+    start: v.number(),
+    end: v.optional(v.number()),
+    // When the discount was removed (unset while it applies)
+    removedAt: v.optional(v.number()),
+    // Stripe `created` timestamp of the last webhook event applied to this row
+    lastEventCreated: v.optional(v.number()),
+    // Stripe Connect account the object belongs to (unset for the platform)
+    stripeAccountId: v.optional(v.string()),
+    // Whether the object is from live mode (unset for rows synced before
+    // modes were tracked)
+    livemode: v.optional(v.boolean()),
+  })
+    .index("by_stripe_discount_id", ["stripeDiscountId"])
+    .index("by_stripe_coupon_id", ["stripeCouponId"])
+    .index("by_stripe_promotion_code_id", ["stripePromotionCodeId"]),
+  // Ledger of received webhook events. Used to skip duplicate deliveries and
+  // to process events asynchronously with retries.
+  webhook_events: defineTable({
+    stripeEventId: v.string(),
+    type: v.string(),
+    // ID of the Stripe object the event is about, e.g. "sub_..."
+    objectId: v.optional(v.string()),
+    livemode: v.optional(v.boolean()),
+    payload: v.string(), // Raw event body, or the event a before-default hook returned
+    status: v.string(), // "pending" | "processing" | "processed" | "failed" | "skipped"
+    attempts: v.number(),
+    receivedAt: v.number(),
+    lastAttemptAt: v.optional(v.number()),
+    processedAt: v.optional(v.number()),
+    // Message of the most recent processing or handler error
+    error: v.optional(v.string()),
+    // Inline handlers that failed, so the next delivery re-runs only them
+    failedHandlers: v.optional(v.array(v.string())),
+    // Retrieve the latest object from Stripe instead of trusting the payload
+    refetch: v.optional(v.boolean()),
+  })
+    .index("by_stripe_event_id", ["stripeEventId"])
+    .index("by_status", ["status"])
+    .index("by_type", ["type"])
+    .index("by_object_id", ["objectId"]),
+  webhook_handler_runs: defineTable({
+    stripeEventId: v.string(),
+    handler: v.string(), // "default", "onEvent" or the event type it was registered for
+    handle: v.string(), // Function handle of the app action to run
+    status: v.string(), // "pending" | "running" | "succeeded" | "failed"
+    attempts: v.number(),
+    lastAttemptAt: v.optional(v.number()),
+    completedAt: v.optional(v.number()),
+    error: v.optional(v.string()),
+  })
+    .index("by_stripe_event_id", ["stripeEventId"])
+    .index("by_status", ["status"]),
+  // Event types received so far, to report the last event of each
+  webhook_event_types: defineTable({
+    type: v.string(),
+  }).index("by_type", ["type"]),
+  // Webhook event counts in fixed time buckets, for rolling window metrics.
+  // Each bucket is split across a few shards to spread concurrent writes.
+  webhook_stats: defineTable({
+    bucketStart: v.number(),
+    shard: v.number(),
+    received: v.number(),
+    processed: v.number(),
+    failed: v.number(),
+  }).index("by_bucket_start_and_shard", ["bucketStart", "shard"]),
+  // Webhook endpoints created through the component, with their secrets
+  webhook_endpoints: defineTable({
+    stripeWebhookEndpointId: v.string(),
+    url: v.string(),
+    enabledEvents: v.array(v.string()),
+    secret: v.optional(v.string()), // Only returned by Stripe on creation
+    livemode: v.boolean(),
+  })
+    .index("by_stripe_webhook_endpoint_id", ["stripeWebhookEndpointId"])
+    .index("by_url", ["url"]),
 });
@@ -0,0 +1,72 @@
+import type StripeSDK from "stripe";
+
+// Helpers shared by the client and the component, for objects both of them
+// read from Stripe.
+
+/**
+ * Trial, cancellation and pause details of a subscription, in the shape
+ * stored by the component.
+ */
+export function getSubscriptionLifecycle(subscription: StripeSDK.Subscription) {
+  return {
+    currentPeriodStart: subscription.items.data[0]?.current_period_start,
+    trialStart: subscription.trial_start ?? undefined,
+    trialEnd: subscription.trial_end ?? undefined,
+    cancelAt: subscription.cancel_at ?? undefined,
+    canceledAt: subscription.canceled_at ?? undefined,
+    endedAt: subscription.ended_at ?? undefined,
+    pauseCollection: subscription.pause_collection
+      ? {
+          behavior: subscription.pause_collection.behavior,
+          resumesAt: subscription.pause_collection.resumes_at ?? undefined,
+        }
+      : undefined,
+    collectionMethod: subscription.collection_method,
+  };
+}
+
+/**
+ * All items of a subscription, in the shape stored by the component.
+ * Subscriptions list at most 10 items; the rest are fetched when a Stripe
+ * client is available. Returns undefined when the full list is unknown.
+ */
+export async function getSubscriptionItems(
+  subscription: StripeSDK.Subscription,
+  stripe: StripeSDK | undefined,
+  requestOptions: StripeSDK.RequestOptions | undefined,
+) {
+  let items = subscription.items.data;
+  if (subscription.items.has_more) {
+    if (!stripe) {
+      return undefined;
+    }
+    items = await stripe.subscriptionItems
+      .list({ subscription: subscription.id, limit: 100 }, requestOptions)
+      .autoPagingToArray({ limit: 10000 });
+  }
+
+  return items.map((item) => ({
+    stripeSubscriptionItemId: item.id,
+    priceId: item.price.id,
+    stripeProductId:
+      typeof item.price.product === "string"
+        ? item.price.product
+        : item.price.product.id,
+    quantity: item.quantity,
+    currentPeriodStart: item.current_period_start,
+    currentPeriodEnd: item.current_period_end,
+    metadata: item.metadata || {},
+  }));
+}
+
+/**
+ * When Stripe sent an API response, in seconds since the epoch, read from its
+ * Date header. Event timestamps come from the same clock, so this can order
+ * fetched objects against webhook events, unlike the local time.
+ * Returns undefined if the object did not come with a response.
+ */
+export function getStripeResponseTime(object: object): number | undefined {
+  const { lastResponse } = object as Partial<StripeSDK.Response<object>>;
+  const sentAt = Date.parse(lastResponse?.headers.date ?? "");
+  return Number.isNaN(sentAt) ? undefined : Math.floor(sentAt / 1000);
+}